@@ -0,0 +1,38 @@
+import React from "react";
+import {
+  getColorMatrix,
+  getSharpenKernel,
+  ImageAdjustments,
+} from "./imageAdjustments";
+
+interface AdjustmentsFilterProps {
+  id: string;
+  adjustments: ImageAdjustments;
+}
+
+// SVG filter that previews the adjustments on screen with the same color
+// matrix and kernel the export applies. Works in sRGB like canvas pixels do.
+export const AdjustmentsFilter = ({
+  id,
+  adjustments,
+}: AdjustmentsFilterProps) => {
+  const kernel = getSharpenKernel(adjustments.sharpen);
+  return (
+    <svg width={0} height={0} style={{ position: "absolute" }} aria-hidden>
+      <filter id={id} colorInterpolationFilters="sRGB">
+        <feColorMatrix
+          type="matrix"
+          values={getColorMatrix(adjustments).join(" ")}
+        />
+        {kernel && (
+          <feConvolveMatrix
+            order={3}
+            kernelMatrix={kernel.join(" ")}
+            edgeMode="duplicate"
+            preserveAlpha="true"
+          />
+        )}
+      </filter>
+    </svg>
+  );
+};
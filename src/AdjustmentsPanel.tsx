@@ -0,0 +1,83 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Stack,
+  Text,
+  Tooltip,
+} from "@chakra-ui/react";
+import {
+  AdjustmentControls,
+  DEFAULT_ADJUSTMENTS,
+  ImageAdjustments,
+  isDefaultAdjustments,
+} from "./imageAdjustments";
+
+interface AdjustmentsPanelProps {
+  value: ImageAdjustments;
+  onChange: (value: ImageAdjustments) => void;
+}
+
+export const AdjustmentsPanel = ({
+  value,
+  onChange,
+}: AdjustmentsPanelProps) => (
+  <Stack spacing={2}>
+    <Flex justify="space-between" align="center">
+      <Text fontWeight="bold">Adjustments</Text>
+      <Button
+        size="xs"
+        variant="ghost"
+        isDisabled={isDefaultAdjustments(value)}
+        onClick={() => onChange(DEFAULT_ADJUSTMENTS)}
+      >
+        Reset all
+      </Button>
+    </Flex>
+    {AdjustmentControls.map(({ key, label, min, max, step }) => (
+      <Flex key={key} justify="space-between" align="center">
+        <Text fontSize="sm">{label}</Text>
+        <Flex w="70%" align="center">
+          <Slider
+            aria-label={label}
+            value={value[key]}
+            min={min}
+            max={max}
+            step={step}
+            onChange={(amount) => onChange({ ...value, [key]: amount })}
+            flex="1"
+          >
+            <SliderTrack>
+              <SliderFilledTrack />
+            </SliderTrack>
+            <SliderThumb />
+          </Slider>
+          <Text ml={3} fontSize="sm" w="4ch" textAlign="right">
+            {value[key]}
+          </Text>
+          <Box w={6} ml={1}>
+            {value[key] !== DEFAULT_ADJUSTMENTS[key] && (
+              <Tooltip label={`Reset ${label.toLowerCase()}`}>
+                <IconButton
+                  aria-label={`Reset ${label.toLowerCase()}`}
+                  icon={<Box as="span">↺</Box>}
+                  size="xs"
+                  variant="ghost"
+                  onClick={() =>
+                    onChange({ ...value, [key]: DEFAULT_ADJUSTMENTS[key] })
+                  }
+                />
+              </Tooltip>
+            )}
+          </Box>
+        </Flex>
+      </Flex>
+    ))}
+  </Stack>
+);
@@ -1,10 +1,13 @@
 import React from "react"
-import { screen } from "@testing-library/react"
+import { act, screen } from "@testing-library/react"
 import { render } from "./test-utils"
 import { App } from "./App"
 
-test("renders learn react link", () => {
-  render(<App />)
-  const linkElement = screen.getByText(/learn chakra/i)
-  expect(linkElement).toBeInTheDocument()
+test("renders the empty workspace prompt", async () => {
+  // Let the workspace restore settle before asserting
+  await act(async () => {
+    render(<App />)
+  })
+  const prompt = screen.getByText(/upload images to begin/i)
+  expect(prompt).toBeInTheDocument()
 })
@@ -1,5 +1,11 @@
 import React, { useState, useRef, useCallback, useEffect } from "react";
 import {
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogOverlay,
   Box,
   Button,
   Container,
@@ -8,6 +14,10 @@ import {
   Heading,
   IconButton,
   Input,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
   Text,
   useDisclosure,
   Modal,
@@ -31,60 +41,200 @@ import {
   NumberIncrementStepper,
   NumberDecrementStepper,
   Tooltip,
-  Select,
   useColorMode,
   Switch,
   FormControl,
   FormLabel,
   Card,
   CardBody,
+  Checkbox,
   CardFooter,
   Divider,
   Center,
   VStack,
-  List,
-  ListItem,
   ListIcon,
   InputGroup,
   InputRightAddon,
+  VisuallyHidden,
+  Skeleton,
 } from "@chakra-ui/react";
-import { useDropzone } from "react-dropzone";
-import Cropper from "react-easy-crop";
+import { FileRejection, useDropzone } from "react-dropzone";
+import Cropper, {
+  getInitialCropFromCroppedAreaPixels,
+  MediaSize,
+} from "react-easy-crop";
 import { nanoid } from "nanoid";
+import JSZip from "jszip";
+import {
+  Area,
+  AspectRatioOptions,
+  AspectRatios,
+  CropInfo,
+  CropRegion,
+  CropResult,
+  CropSettings,
+  DEFAULT_TRANSFORM,
+  Dimensions,
+  ImageData,
+  ImageTransform,
+  Point,
+} from "./types";
+import {
+  clampArea,
+  fitAreaToRatio,
+  getLargestArea,
+  getPaddedArea,
+  normalizeRotation,
+  resizeArea,
+  rotateSize,
+} from "./cropEngine";
+import {
+  createThumbnail,
+  createUprightUrl,
+  downloadBlob,
+  getCropperTransform,
+  getImageDimensions,
+  restrictCropPosition,
+} from "./imageUtils";
+import { getCameraName, parseExifDate, readExif } from "./exif";
+import { BatchCropModal } from "./BatchCropModal";
+import { ExportOptions } from "./ExportOptions";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  ExportFormat,
+  ExportSettings,
+  toEncodeOptions,
+} from "./exportSettings";
+import {
+  clearWorkspace,
+  getStorageUsage,
+  loadPreference,
+  loadWorkspace,
+  savePreference,
+  saveWorkspace,
+  StorageUsage,
+} from "./workspaceDb";
+import { formatBytes } from "./format";
+import { CropHistoryDrawer } from "./CropHistoryDrawer";
+import { AspectRatioPicker } from "./AspectRatioPicker";
+import { AspectPreset } from "./aspectPresets";
+import { OutputSizeOptions } from "./OutputSizeOptions";
+import { ExportProfile } from "./exportProfiles";
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  FileNameValues,
+  makeUniqueName,
+  renderFileName,
+} from "./fileNameTemplate";
+import { FileNameTemplateInput } from "./FileNameTemplateInput";
+import { ExportProfilePicker } from "./ExportProfilePicker";
+import { suggestCrops } from "./smartCrop";
+import {
+  DEFAULT_TRIM_OPTIONS,
+  describeTrim,
+  detectTrim,
+  TrimOptions,
+  TrimResult,
+} from "./autoTrim";
+import { AutoTrimOptions } from "./AutoTrimOptions";
+import { AutoTrimAllModal, TrimUpdate } from "./AutoTrimAllModal";
+import {
+  getNextRegionName,
+  getRegionCropOptions,
+  getRegionFileName,
+} from "./cropRegions";
+import { CropRegionList } from "./CropRegionList";
+import { RegionOutlines } from "./RegionOutlines";
+import { CropGuidesOverlay } from "./CropGuidesOverlay";
+import { CropGuidesMenu } from "./CropGuidesMenu";
+import { CropShapeOptions } from "./CropShapeOptions";
+import { CropShapePreview } from "./CropShapePreview";
+import { PaddingOptions } from "./PaddingOptions";
+import { AdjustmentsPanel } from "./AdjustmentsPanel";
+import { AdjustmentsFilter } from "./AdjustmentsFilter";
+import {
+  DEFAULT_ADJUSTMENTS,
+  ImageAdjustments,
+  isDefaultAdjustments,
+} from "./imageAdjustments";
+import { CropResultPreview } from "./CropResultPreview";
+import {
+  DEFAULT_PADDING_SETTINGS,
+  fromCropPadding,
+  isPaddedArea,
+  MIN_PADDED_ZOOM,
+  PaddingSettings,
+  toCropPadding,
+} from "./canvasPadding";
+import {
+  CropShapeSettings,
+  DEFAULT_CROP_SHAPE,
+  toCropShape,
+} from "./cropShape";
+import {
+  CropGuide,
+  DEFAULT_CROP_GUIDES,
+  getPrintBleed,
+} from "./compositionGuides";
+import { ShortcutHelpModal } from "./ShortcutHelpModal";
+import { createExportQueue, ExportJob, queueCrop } from "./exportQueue";
+import { isCancelled } from "./exportWorker";
+import { ExportQueuePanel } from "./ExportQueuePanel";
+import { getRelativeFolder, isImageFile, summarizeNames } from "./fileImport";
+import {
+  applyGridView,
+  getRangeIds,
+  getViewNeighbours,
+  GridView,
+  parseGridView,
+  serializeGridView,
+} from "./gridView";
+import { GridToolbar } from "./GridToolbar";
+import {
+  canCopyImages,
+  copyImageToClipboard,
+  fetchImageFile,
+  getClipboardImages,
+  getTransferImageUrls,
+} from "./clipboard";
+import { createGridThumbnail } from "./thumbnails";
+import { VirtualGrid } from "./VirtualGrid";
+import { ImageLimitSetting } from "./ImageLimitSetting";
+import {
+  clampImageLimit,
+  getDeviceMemory,
+  getSuggestedImageLimit,
+} from "./workspaceLimits";
+import { getShortcutAction, isOwnKeyTarget } from "./cropShortcuts";
+import {
+  createHistory,
+  EditHistory,
+  EditorState,
+  pushState,
+  redo,
+  undo,
+} from "./editHistory";
+import {
+  DEFAULT_OUTPUT_SETTINGS,
+  getLockedRatio,
+  getOutputDpi,
+  getSavedOutputSettings,
+  OutputSettings,
+  resolveOutputSize,
+} from "./outputSize";
 
-interface Point {
-  x: number;
-  y: number;
-}
-interface Area {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+// Shape of react-easy-crop's box when no aspect ratio is set
+const FREE_CROPPER_ASPECT = 4 / 3;
 
-interface CropInfo {
-  id: string;
-  dimensions: string;
-  timestamp: Date;
-}
+const SUGGESTED_IMAGE_LIMIT = getSuggestedImageLimit(getDeviceMemory());
 
-interface ImageData {
-  id: string;
-  file: File;
-  url: string;
-  name: string;
-  size: number;
-  cropped: boolean;
-  cropHistory: CropInfo[];
-  lastCrop?: Area;
-}
+// Height of an image card in the grid, which needs every row the same height
+const CARD_HEIGHT = 330;
 
-const AspectRatios = {
-  FREE: 0,
-  ORIGINAL: -1,
-  SQUARE: 1,
-} as const;
+const revokeImageUrls = (image: ImageData) => {
+  URL.revokeObjectURL(image.url);
+  if (image.thumbnailUrl) URL.revokeObjectURL(image.thumbnailUrl);
+};
 
 function App() {
   const [images, setImages] = useState<ImageData[]>([]);
@@ -102,33 +252,186 @@ function App() {
     width: 0,
     height: 0,
   });
+  const [transform, setTransform] = useState<ImageTransform>(DEFAULT_TRANSFORM);
+  const [initialCropArea, setInitialCropArea] = useState<Area>();
+  const [historyImageId, setHistoryImageId] = useState<string | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(
+    DEFAULT_EXPORT_SETTINGS
+  );
+  const [aspectPresets, setAspectPresets] = useState<AspectPreset[]>([]);
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(
+    DEFAULT_OUTPUT_SETTINGS
+  );
+  const [exportProfiles, setExportProfiles] = useState<ExportProfile[]>([]);
+  // Profile applied in the cropper; its file name pattern names downloads
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [fileNameTemplate, setFileNameTemplate] = useState(
+    DEFAULT_FILE_NAME_TEMPLATE
+  );
+  // Names downloaded this session, so repeated exports are numbered instead
+  // of being renamed unpredictably by the browser
+  const downloadNamesRef = useRef(new Set<string>());
+  const [imageLimit, setImageLimit] = useState(SUGGESTED_IMAGE_LIMIT);
+  const [cropGuides, setCropGuides] =
+    useState<CropGuide[]>(DEFAULT_CROP_GUIDES);
+  const [cropShape, setCropShape] =
+    useState<CropShapeSettings>(DEFAULT_CROP_SHAPE);
+  const [padding, setPadding] = useState<PaddingSettings>(
+    DEFAULT_PADDING_SETTINGS
+  );
+  const [adjustments, setAdjustments] =
+    useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  // Ratio to pad the whole image out to once the crop box has resized
+  const pendingPadRatioRef = useRef<number | null>(null);
+  const [exportJobs, setExportJobs] = useState<ExportJob[]>([]);
+  const [exportQueue] = useState(() => createExportQueue(setExportJobs));
+  // Images whose grid thumbnail has been requested
+  const thumbnailRequestsRef = useRef(new Set<string>());
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  const clearDialogCancelRef = useRef<HTMLButtonElement>(null);
   const { isOpen, onOpen, onClose } = useDisclosure();
+  const batchDisclosure = useDisclosure();
+  const clearDialog = useDisclosure();
+  const deleteDialog = useDisclosure();
+  const deleteDialogCancelRef = useRef<HTMLButtonElement>(null);
+  const [gridView, setGridView] = useState<GridView>(() =>
+    parseGridView(window.location.search)
+  );
+  // Last image (de)selected without Shift, where range selections start
+  const selectionAnchorRef = useRef<string | null>(null);
+  const historyDisclosure = useDisclosure();
+  const shortcutHelp = useDisclosure();
+  const trimAllDisclosure = useDisclosure();
+  // Screen sizes reported by the cropper, needed to move it from the keyboard
+  const cropperSizesRef = useRef<{ media?: MediaSize; crop?: Dimensions }>({});
+  // Also kept as state so guides redraw when the crop box resizes
+  const [cropBoxSize, setCropBoxSize] = useState<Dimensions | null>(null);
+  const [cropAnnouncement, setCropAnnouncement] = useState("");
+  // Undo stacks per image, kept for the whole session
+  const editHistoriesRef = useRef(new Map<string, EditHistory>());
+  const [editHistory, setEditHistory] = useState<EditHistory | null>(null);
+  const [isInteracting, setIsInteracting] = useState(false);
+  // An exact area set from outside the cropper (typed, restored or trimmed)
+  // that the cropper's own, box-shaped reports should not overwrite until
+  // the user moves it
+  const isAreaPinnedRef = useRef(false);
+  const [suggestions, setSuggestions] = useState<Area[]>([]);
+  const [trimOptions, setTrimOptions] =
+    useState<TrimOptions>(DEFAULT_TRIM_OPTIONS);
+  // Detection result waiting to be applied; null when nothing was found
+  const [trimResult, setTrimResult] = useState<TrimResult | null>();
+  const [isDetectingTrim, setIsDetectingTrim] = useState(false);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  // Region loaded into the cropper, which "Update region" writes back to
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
+  const [isExportingRegions, setIsExportingRegions] = useState(false);
+  const [isZippingOriginals, setIsZippingOriginals] = useState(false);
   const toast = useToast();
   const { colorMode, toggleColorMode } = useColorMode();
 
-  const onDrop = useCallback(
-    (acceptedFiles: File[]) => {
-      const validFiles = acceptedFiles.filter((file) =>
-        file.type.startsWith("image/")
-      );
+  const historyImage =
+    images.find((image) => image.id === historyImageId) ?? null;
+  const currentIndex = currentImage
+    ? images.findIndex((image) => image.id === currentImage.id)
+    : -1;
+  const currentRegions = images[currentIndex]?.regions ?? [];
+  const visibleImages = applyGridView(images, gridView);
+  // The cropper steps through the images in the order the grid shows them
+  const visibleIndex = currentImage
+    ? visibleImages.findIndex((image) => image.id === currentImage.id)
+    : -1;
+  const { previous: previousImage, next: nextImage } = getViewNeighbours(
+    images,
+    gridView,
+    currentImage?.id
+  );
+  // Bulk actions only touch selected images the current view shows
+  const selectedImages = visibleImages.filter((image) =>
+    selectedIds.includes(image.id)
+  );
+  const isAllVisibleSelected =
+    visibleImages.length > 0 && selectedImages.length === visibleImages.length;
+  const activeProfile = exportProfiles.find(
+    (profile) => profile.id === activeProfileId
+  );
+
+  // Crop coordinates live in the bounding box of the rotated image
+  const rotatedSize = rotateSize(
+    originalDimensions.width,
+    originalDimensions.height,
+    transform.rotation
+  );
+  const bounds = {
+    width: Math.round(rotatedSize.width),
+    height: Math.round(rotatedSize.height),
+  };
+
+  // Extend-canvas mode lets the crop reach past the image on every side
+  const minZoom = padding.isEnabled ? MIN_PADDED_ZOOM : 1;
+  const maxCropSize = padding.isEnabled
+    ? {
+        width: Math.round(bounds.width / MIN_PADDED_ZOOM),
+        height: Math.round(bounds.height / MIN_PADDED_ZOOM),
+      }
+    : bounds;
+
+  // react-easy-crop needs a real ratio; free-form keeps its default box
+  const cropperAspect =
+    aspectRatio > 0
+      ? aspectRatio
+      : aspectRatio === AspectRatios.ORIGINAL && bounds.height > 0
+      ? bounds.width / bounds.height
+      : undefined;
+
+  const getDownloadName = (
+    template: string,
+    values: FileNameValues,
+    format: ExportFormat
+  ) =>
+    makeUniqueName(
+      renderFileName(template, values, format),
+      downloadNamesRef.current
+    );
 
-      if (validFiles.length === 0) {
+  const onDrop = useCallback(
+    (acceptedFiles: File[], rejections: FileRejection[] = []) => {
+      const validFiles = acceptedFiles.filter(isImageFile);
+      // Everything else in a dropped folder is reported once, together
+      const skipped = [
+        ...rejections.map(({ file }) => file),
+        ...acceptedFiles.filter((file) => !isImageFile(file)),
+      ].map((file) => file.name);
+
+      if (skipped.length > 0) {
         toast({
-          title: "Invalid files",
-          description: "Only image files are accepted",
-          status: "error",
-          duration: 3000,
+          title: `Skipped ${skipped.length} ${
+            skipped.length === 1 ? "file" : "files"
+          } that ${skipped.length === 1 ? "is" : "are"} not an image`,
+          description: summarizeNames(skipped),
+          status: validFiles.length === 0 ? "error" : "info",
+          duration: 5000,
           isClosable: true,
         });
-        return;
       }
+      if (validFiles.length === 0) return;
 
-      const maxFilesAllowed = 10 - images.length;
+      const maxFilesAllowed = Math.max(
+        0,
+        clampImageLimit(imageLimit) - images.length
+      );
       if (validFiles.length > maxFilesAllowed) {
         toast({
           title: "Too many files",
-          description: `You can only upload up to ${maxFilesAllowed} more images`,
+          description:
+            maxFilesAllowed > 0
+              ? `You can only upload up to ${maxFilesAllowed} more images`
+              : "The workspace is full; raise the image limit in the settings",
           status: "warning",
           duration: 3000,
           isClosable: true,
@@ -155,6 +458,7 @@ function App() {
           file,
           url,
           name: file.name,
+          folder: getRelativeFolder(file),
           size: file.size,
           cropped: false,
           cropHistory: [],
@@ -172,10 +476,133 @@ function App() {
       }
 
       setImages((prev) => [...prev, ...newImages]);
+
+      // Read EXIF in the background; rotated photos get an upright preview
+      newImages.forEach(async ({ id, file, url }) => {
+        const exif = await readExif(file).catch(() => null);
+        const uprightUrl =
+          exif && exif.orientation > 1
+            ? await createUprightUrl(file, exif.orientation)
+            : url;
+        if (uprightUrl !== url) URL.revokeObjectURL(url);
+        if (!imagesRef.current.some((img) => img.id === id)) {
+          URL.revokeObjectURL(uprightUrl);
+          return;
+        }
+        setImages((prev) =>
+          prev.map((img) =>
+            img.id === id ? { ...img, exif, url: uprightUrl } : img
+          )
+        );
+      });
     },
-    [images, toast]
+    [images, imageLimit, toast]
   );
 
+  // Make grid thumbnails in the background so the grid never decodes
+  // originals. Images saved before sizes were recorded get a fresh one.
+  useEffect(() => {
+    images
+      .filter(
+        (image) =>
+          image.thumbnail !== null &&
+          !image.dimensions &&
+          !thumbnailRequestsRef.current.has(image.id)
+      )
+      .forEach(({ id, file }) => {
+        thumbnailRequestsRef.current.add(id);
+        createGridThumbnail(file)
+          .then(({ blob, source }) => ({
+            thumbnail: blob,
+            thumbnailUrl: URL.createObjectURL(blob),
+            dimensions: source,
+          }))
+          // Without a thumbnail the card shows the original instead
+          .catch(() => ({
+            thumbnail: null,
+            thumbnailUrl: undefined,
+            dimensions: undefined,
+          }))
+          .then((update) => {
+            const image = imagesRef.current.find((img) => img.id === id);
+            if (!image) {
+              if (update.thumbnailUrl) URL.revokeObjectURL(update.thumbnailUrl);
+              return;
+            }
+            setImages((prev) =>
+              prev.map((img) => (img.id === id ? { ...img, ...update } : img))
+            );
+            if (image.thumbnailUrl) URL.revokeObjectURL(image.thumbnailUrl);
+          });
+      });
+  }, [images]);
+
+  // Linked images arrive after a download, when the workspace may have changed
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+
+  // Fetches linked images into files; sites that block cross-origin requests
+  // are reported
+  const importImageUrls = useCallback(
+    (urls: string[]) => {
+      Promise.allSettled(urls.map(fetchImageFile)).then((results) => {
+        const fetched: File[] = [];
+        const errors: string[] = [];
+        results.forEach((result) => {
+          if (result.status === "fulfilled") fetched.push(result.value);
+          else if (result.reason instanceof Error) {
+            errors.push(result.reason.message);
+          }
+        });
+        if (fetched.length > 0) onDropRef.current(fetched);
+        if (errors.length > 0) {
+          toast({
+            title:
+              errors.length === 1
+                ? "Linked image could not be added"
+                : `${errors.length} linked images could not be added`,
+            description: errors[0],
+            status: "warning",
+            duration: 5000,
+            isClosable: true,
+          });
+        }
+      });
+    },
+    [toast]
+  );
+
+  // Paste images anywhere in the app; text fields keep ordinary text pastes
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!event.clipboardData) return;
+      const files = getClipboardImages(event.clipboardData);
+      if (files.length > 0) {
+        event.preventDefault();
+        onDrop(files);
+        return;
+      }
+      if (isOwnKeyTarget(event.target, "v")) return;
+
+      const urls = getTransferImageUrls(event.clipboardData);
+      if (urls.length === 0) {
+        toast({
+          title: "No image on the clipboard",
+          description: "Copy an image, or a link to one, and paste again",
+          status: "info",
+          duration: 3000,
+          isClosable: true,
+        });
+        return;
+      }
+      event.preventDefault();
+      importImageUrls(urls);
+    };
+
+    document.addEventListener("paste", handlePaste);
+    return () => document.removeEventListener("paste", handlePaste);
+  }, [onDrop, importImageUrls, toast]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
@@ -184,101 +611,548 @@ function App() {
     noClick: true,
   });
 
-  const handleDelete = (id: string) => {
+  // Images dragged from another tab arrive as links, which the dropzone
+  // ignores because they carry no files
+  const handleLinkDrop = (event: React.DragEvent) => {
+    if (Array.from(event.dataTransfer.types).includes("Files")) return;
+    const urls = getTransferImageUrls(event.dataTransfer);
+    if (urls.length > 0) importImageUrls(urls);
+  };
+
+  const handleDeleteImages = (ids: string[]) => {
     setImages((prev) => {
-      const updatedImages = prev.filter((img) => img.id !== id);
-      const deletedImage = prev.find((img) => img.id === id);
-      if (deletedImage) URL.revokeObjectURL(deletedImage.url);
-      return updatedImages;
+      prev.filter((img) => ids.includes(img.id)).forEach(revokeImageUrls);
+      return prev.filter((img) => !ids.includes(img.id));
     });
+    setSelectedIds((prev) => prev.filter((entry) => !ids.includes(entry)));
+    ids.forEach((id) => editHistoriesRef.current.delete(id));
   };
 
-  const handleOpenCropper = (image: ImageData) => {
-    setCurrentImage(image);
+  const handleDelete = (id: string) => handleDeleteImages([id]);
 
-    // Reset crop when opening a new image
-    if (!image.lastCrop) {
+  const handleDeleteSelected = () => {
+    deleteDialog.onClose();
+    handleDeleteImages(selectedImages.map((image) => image.id));
+    toast({
+      title: `Deleted ${selectedImages.length} images`,
+      status: "success",
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+
+  // Several originals are zipped, keeping the folders they were imported from
+  const handleDownloadOriginals = async () => {
+    if (selectedImages.length === 1) {
+      const [image] = selectedImages;
+      downloadBlob(
+        image.file,
+        makeUniqueName(image.name, downloadNamesRef.current)
+      );
+      return;
+    }
+    const zip = new JSZip();
+    const takenNames = new Set<string>();
+    selectedImages.forEach((image) =>
+      zip.file(
+        makeUniqueName(
+          image.folder ? `${image.folder}/${image.name}` : image.name,
+          takenNames
+        ),
+        image.file
+      )
+    );
+    setIsZippingOriginals(true);
+    try {
+      downloadBlob(
+        await zip.generateAsync({ type: "blob" }),
+        makeUniqueName("original-images.zip", downloadNamesRef.current)
+      );
+    } catch (error) {
+      toast({
+        title: "ZIP file could not be created",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsZippingOriginals(false);
+    }
+  };
+
+  const handleClearSelectedHistory = () => {
+    const ids = selectedImages.map((image) => image.id);
+    setImages((prev) =>
+      prev.map((img) =>
+        ids.includes(img.id) ? { ...img, cropHistory: [], cropped: false } : img
+      )
+    );
+    toast({
+      title: `Cleared the crop history of ${ids.length} images`,
+      status: "success",
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+
+  const handleOpenCropper = (image: ImageData, restore?: CropSettings) => {
+    setCurrentImage(image);
+    setEditHistory(editHistoriesRef.current.get(image.id) ?? null);
+    setSuggestions([]);
+    setTrimResult(undefined);
+    setActiveRegionId(null);
+    setAdjustments(restore?.adjustments ?? DEFAULT_ADJUSTMENTS);
+
+    if (restore) {
+      // Restore a crop from history, including the settings it was made with
+      isAreaPinnedRef.current = true;
+      setCrop({ x: 0, y: 0 });
+      setZoom(restore.zoom);
+      setAspectRatio(restore.aspectRatio);
+      setCropArea(restore.area);
+      setInitialCropArea(restore.area);
+      setTransform(restore.transform);
+      setExportSettings(restore.exportSettings);
+      setOutputSettings((prev) => getSavedOutputSettings(restore, prev));
+      setCropShape(restore.shape ?? DEFAULT_CROP_SHAPE);
+      setPadding((prev) => fromCropPadding(restore.padding, prev));
+    } else if (!image.lastCrop) {
+      // Reset crop when opening a new image
+      isAreaPinnedRef.current = false;
       setCrop({ x: 0, y: 0 });
       setZoom(1);
       setCropArea({ x: 0, y: 0, width: 0, height: 0 });
+      setInitialCropArea(undefined);
+      setTransform(DEFAULT_TRANSFORM);
     } else {
       // Restore last crop settings
-      setCrop({ x: image.lastCrop.x, y: image.lastCrop.y });
-      setCropArea(image.lastCrop);
+      const { rotation, flipHorizontal, flipVertical, ...area } =
+        image.lastCrop;
+      isAreaPinnedRef.current = true;
+      setCrop({ x: area.x, y: area.y });
+      setCropArea(area);
+      setInitialCropArea(area);
+      setTransform({ rotation, flipHorizontal, flipVertical });
     }
 
+    const lockedRatio = getLockedRatio(outputSettings);
+    if (lockedRatio && !restore) setAspectRatio(lockedRatio);
+
     onOpen();
   };
 
   const handleCropComplete = (_: Area, croppedAreaPixels: Area) => {
+    if (isAreaPinnedRef.current) return;
     setCropArea(croppedAreaPixels);
   };
 
-  const handleCropSave = () => {
-    if (!currentImage) return;
+  const releaseCropArea = () => {
+    isAreaPinnedRef.current = false;
+  };
 
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-    const image = new window.Image();
-
-    image.onload = () => {
-      canvas.width = cropArea.width;
-      canvas.height = cropArea.height;
-
-      if (ctx) {
-        ctx.drawImage(
-          image,
-          cropArea.x,
-          cropArea.y,
-          cropArea.width,
-          cropArea.height,
-          0,
-          0,
-          cropArea.width,
-          cropArea.height
+  // Mark images as cropped and add a history entry for each result. An image
+  // can have several results when its regions are exported together.
+  const recordCrops = (results: CropResult[]) => {
+    setImages((prev) =>
+      prev.map((img) => {
+        const imageResults = results.filter(
+          (entry) => entry.imageId === img.id
         );
+        if (imageResults.length === 0) return img;
+
+        const entries: CropInfo[] = imageResults.map((result) => {
+          const { area } = result.settings;
+          return {
+            ...result.settings,
+            id: nanoid(),
+            dimensions: `${Math.round(area.width)} x ${Math.round(
+              area.height
+            )}`,
+            timestamp: new Date(),
+            thumbnail: result.thumbnail,
+          };
+        });
+        const { area, transform } =
+          imageResults[imageResults.length - 1].settings;
+
+        return {
+          ...img,
+          cropped: true,
+          cropHistory: [...img.cropHistory, ...entries],
+          lastCrop: { ...area, ...transform },
+        };
+      })
+    );
+  };
 
-        canvas.toBlob((blob) => {
-          if (blob) {
-            // Create download link
-            const link = document.createElement("a");
-            link.download = `cropped-${currentImage.name}`;
-            link.href = URL.createObjectURL(blob);
-            link.click();
-
-            // Add to crop history
-            const dimensionsText = `${cropArea.width} x ${cropArea.height}`;
-            const cropInfo: CropInfo = {
-              id: nanoid(),
-              dimensions: dimensionsText,
-              timestamp: new Date(),
-            };
+  const handleCropSave = async () => {
+    if (!currentImage) return;
 
-            setImages((prev) =>
-              prev.map((img) =>
-                img.id === currentImage.id
-                  ? {
-                      ...img,
-                      cropped: true,
-                      cropHistory: [...img.cropHistory, cropInfo],
-                      lastCrop: cropArea,
-                    }
-                  : img
-              )
-            );
+    const output = resolveOutputSize(outputSettings, cropArea);
+    const dpi = getOutputDpi(outputSettings);
+    const settings: CropSettings = {
+      area: cropArea,
+      aspectRatio,
+      zoom,
+      transform,
+      output,
+      dpi,
+      outputSettings,
+      exportSettings,
+      shape: toCropShape(cropShape) ? cropShape : undefined,
+      padding: toCropPadding(padding),
+      adjustments: isDefaultAdjustments(adjustments) ? undefined : adjustments,
+    };
 
-            toast({
-              title: "Image cropped successfully",
-              status: "success",
-              duration: 3000,
-              isClosable: true,
-            });
-          }
+    try {
+      const blob = await queueCrop(
+        exportQueue,
+        currentImage.name,
+        currentImage,
+        cropArea,
+        {
+          output,
+          transform,
+          padding: toCropPadding(padding),
+          shape: toCropShape(cropShape),
+          adjustments,
+          encoding: {
+            ...toEncodeOptions(exportSettings, currentImage.exif),
+            dpi,
+          },
+        }
+      );
+      downloadBlob(
+        blob,
+        getDownloadName(
+          fileNameTemplate,
+          {
+            sourceName: currentImage.name,
+            folder: currentImage.folder,
+            ...(output ?? cropArea),
+            profile: activeProfile?.name,
+            index: currentIndex + 1,
+            date: new Date(),
+          },
+          exportSettings.format
+        )
+      );
+      recordCrops([
+        {
+          imageId: currentImage.id,
+          settings,
+          thumbnail: await createThumbnail(blob).catch(() => undefined),
+        },
+      ]);
+
+      toast({
+        title: "Image cropped successfully",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      if (isCancelled(error)) return;
+      toast({
+        title: "Crop failed",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const copyToClipboard = (png: Promise<Blob>) =>
+    copyImageToClipboard(png).then(
+      () =>
+        toast({
+          title: "Copied to clipboard",
+          status: "success",
+          duration: 2000,
+          isClosable: true,
+        }),
+      (error) => {
+        if (isCancelled(error)) return;
+        toast({
+          title: "Copy failed",
+          description: error instanceof Error ? error.message : undefined,
+          status: "error",
+          duration: 3000,
+          isClosable: true,
         });
       }
+    );
+
+  // Copies the crop as PNG at its output size
+  const handleCropCopy = () => {
+    if (!currentImage) return;
+    copyToClipboard(
+      queueCrop(exportQueue, currentImage.name, currentImage, cropArea, {
+        output: resolveOutputSize(outputSettings, cropArea),
+        transform,
+        padding: toCropPadding(padding),
+        shape: toCropShape(cropShape),
+        adjustments,
+        encoding: { type: "image/png" },
+      })
+    );
+  };
+
+  // Loads a profile's settings into the cropper; the crop follows its ratio
+  const handleApplyProfile = (profile: ExportProfile | null) => {
+    setActiveProfileId(profile?.id ?? null);
+    if (!profile) return;
+    setExportSettings(profile.exportSettings);
+    setOutputSettings(profile.outputSettings);
+    setFileNameTemplate(profile.fileNamePattern);
+    const ratio = getLockedRatio(profile.outputSettings) ?? profile.aspectRatio;
+    if (ratio !== aspectRatio) handleAspectRatioChange(ratio);
+  };
+
+  const handleSaveProfile = (name: string) => {
+    const profile: ExportProfile = {
+      id: nanoid(),
+      name,
+      aspectRatio,
+      outputSettings,
+      exportSettings,
+      fileNamePattern: fileNameTemplate,
     };
+    setExportProfiles((prev) => [...prev, profile]);
+    setActiveProfileId(profile.id);
+  };
+
+  // Exports an image straight from its card with the largest centred crop
+  // that has the profile's ratio
+  const handleProfileExport = async (
+    image: ImageData,
+    profile: ExportProfile
+  ) => {
+    try {
+      const dimensions =
+        image.dimensions ?? (await getImageDimensions(image.url));
+      const ratio =
+        getLockedRatio(profile.outputSettings) ?? profile.aspectRatio;
+      const area = getLargestArea(dimensions, ratio);
+      const output = resolveOutputSize(profile.outputSettings, area);
+      const dpi = getOutputDpi(profile.outputSettings);
+      const blob = await queueCrop(
+        exportQueue,
+        `${image.name} (${profile.name})`,
+        image,
+        area,
+        {
+          output,
+          encoding: {
+            ...toEncodeOptions(profile.exportSettings, image.exif),
+            dpi,
+          },
+        }
+      );
+      downloadBlob(
+        blob,
+        getDownloadName(
+          profile.fileNamePattern,
+          {
+            sourceName: image.name,
+            folder: image.folder,
+            ...(output ?? area),
+            profile: profile.name,
+            index: images.indexOf(image) + 1,
+            date: new Date(),
+          },
+          profile.exportSettings.format
+        )
+      );
+      recordCrops([
+        {
+          imageId: image.id,
+          settings: {
+            area,
+            aspectRatio: ratio,
+            zoom: 1,
+            transform: DEFAULT_TRANSFORM,
+            output,
+            dpi,
+            outputSettings: profile.outputSettings,
+            exportSettings: profile.exportSettings,
+          },
+          thumbnail: await createThumbnail(blob).catch(() => undefined),
+        },
+      ]);
+      toast({
+        title: `Exported ${image.name} as ${profile.name}`,
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      if (isCancelled(error)) return;
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const handleHistoryRestore = (entry: CropInfo) => {
+    if (!historyImage) return;
+    historyDisclosure.onClose();
+    handleOpenCropper(historyImage, entry);
+  };
+
+  const handleHistoryDownload = async (entry: CropInfo) => {
+    if (!historyImage) return;
+
+    try {
+      const blob = await queueCrop(
+        exportQueue,
+        historyImage.name,
+        historyImage,
+        entry.area,
+        {
+          output: entry.output,
+          transform: entry.transform,
+          padding: entry.padding,
+          shape: toCropShape(entry.shape),
+          adjustments: entry.adjustments,
+          encoding: {
+            ...toEncodeOptions(entry.exportSettings, historyImage.exif),
+            dpi: entry.dpi,
+          },
+        }
+      );
+      downloadBlob(
+        blob,
+        getDownloadName(
+          fileNameTemplate,
+          {
+            sourceName: historyImage.name,
+            folder: historyImage.folder,
+            ...(entry.output ?? entry.area),
+            index: images.indexOf(historyImage) + 1,
+            date: new Date(),
+          },
+          entry.exportSettings.format
+        )
+      );
+    } catch (error) {
+      if (isCancelled(error)) return;
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const handleHistoryCopy = (entry: CropInfo) => {
+    if (!historyImage) return;
+    copyToClipboard(
+      queueCrop(exportQueue, historyImage.name, historyImage, entry.area, {
+        output: entry.output,
+        transform: entry.transform,
+        padding: entry.padding,
+        shape: toCropShape(entry.shape),
+        adjustments: entry.adjustments,
+        encoding: { type: "image/png" },
+      })
+    );
+  };
+
+  const handleHistoryDelete = (entryId: string) => {
+    setImages((prev) =>
+      prev.map((img) => {
+        if (img.id !== historyImageId) return img;
+        const cropHistory = img.cropHistory.filter(
+          (entry) => entry.id !== entryId
+        );
+        return { ...img, cropHistory, cropped: cropHistory.length > 0 };
+      })
+    );
+  };
+
+  const handleBatchComplete = (results: CropResult[]) => {
+    recordCrops(results);
+    setSelectedIds([]);
+  };
+
+  // Trimmed areas become each image's last crop, ready in the cropper
+  const handleApplyTrims = (updates: TrimUpdate[]) => {
+    setImages((prev) =>
+      prev.map((img) => {
+        const update = updates.find((entry) => entry.imageId === img.id);
+        return update
+          ? { ...img, lastCrop: { ...update.area, ...update.transform } }
+          : img;
+      })
+    );
+    toast({
+      title: `Trimmed ${updates.length} image${
+        updates.length === 1 ? "" : "s"
+      }`,
+      description: "Open an image to review and download its crop",
+      status: "success",
+      duration: 3000,
+      isClosable: true,
+    });
+  };
 
-    image.src = currentImage.url;
+  const handleClearWorkspace = async () => {
+    clearDialog.onClose();
+    images.forEach(revokeImageUrls);
+    setImages([]);
+    setSelectedIds([]);
+
+    try {
+      await clearWorkspace();
+      toast({
+        title: "Workspace cleared",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch {
+      toast({
+        title: "Stored workspace could not be cleared",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+    refreshStorageUsage();
+  };
+
+  // Shift extends the change to every image shown between the last one
+  // clicked and this one
+  const handleSelect = (id: string, isSelected: boolean, isRange: boolean) => {
+    const ids = isRange
+      ? getRangeIds(
+          visibleImages.map((image) => image.id),
+          selectionAnchorRef.current,
+          id
+        )
+      : [id];
+    if (!isRange) selectionAnchorRef.current = id;
+    setSelectedIds((prev) => [
+      ...prev.filter((entry) => !ids.includes(entry)),
+      ...(isSelected ? ids : []),
+    ]);
+  };
+
+  const handleSelectAllVisible = () => {
+    const ids = visibleImages.map((image) => image.id);
+    setSelectedIds((prev) => [
+      ...prev.filter((entry) => !ids.includes(entry)),
+      ...(isAllVisibleSelected ? [] : ids),
+    ]);
   };
 
   const handleImageLoad = () => {
@@ -296,28 +1170,36 @@ function App() {
         height: imageRef.current.naturalHeight,
       };
 
-      // Only set default area if no previous crop exists
-      if (!currentImage.lastCrop) {
+      // Only set default area if no previous crop is being restored
+      if (!initialCropArea) {
         setCropArea(initialArea);
       }
     }
   };
 
-  const handleAspectRatioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = parseFloat(e.target.value);
+  const handleRotate = (degrees: number) => {
+    setTransform((prev) => ({
+      ...prev,
+      rotation: normalizeRotation(prev.rotation + degrees),
+    }));
+  };
+
+  const handleFlip = (axis: "flipHorizontal" | "flipVertical") => {
+    setTransform((prev) => ({ ...prev, [axis]: !prev[axis] }));
+  };
+
+  const handleAspectRatioChange = (value: number) => {
+    releaseCropArea();
     setAspectRatio(value);
+    setSuggestions([]);
 
     // Adjust crop area to respect new aspect ratio
     if (value === AspectRatios.FREE) {
       // Free form - no adjustment needed
       return;
-    } else if (
-      value === AspectRatios.ORIGINAL &&
-      originalDimensions.width > 0
-    ) {
+    } else if (value === AspectRatios.ORIGINAL && bounds.width > 0) {
       // Original aspect ratio
-      const originalRatio =
-        originalDimensions.width / originalDimensions.height;
+      const originalRatio = bounds.width / bounds.height;
       adjustCropAreaToRatio(originalRatio);
     } else if (value > 0) {
       // Specific aspect ratio (e.g. 1:1)
@@ -325,69 +1207,515 @@ function App() {
     }
   };
 
-  const adjustCropAreaToRatio = (ratio: number) => {
-    if (!originalDimensions.width) return;
+  const isRatioLocked = getLockedRatio(outputSettings) !== null;
 
-    let newWidth = cropArea.width;
-    let newHeight = cropArea.height;
-
-    // Adjust height based on width to maintain aspect ratio
-    newHeight = newWidth / ratio;
+  // Exact and print sizes fix the output shape, so the crop follows it
+  const handleOutputSettingsChange = (value: OutputSettings) => {
+    setOutputSettings(value);
+    const lockedRatio = getLockedRatio(value);
+    if (lockedRatio && lockedRatio !== aspectRatio) {
+      handleAspectRatioChange(lockedRatio);
+    }
+  };
 
-    // If height exceeds image bounds, adjust width instead
-    if (newHeight > originalDimensions.height) {
-      newHeight = originalDimensions.height;
-      newWidth = newHeight * ratio;
+  const adjustCropAreaToRatio = (ratio: number) => {
+    if (!bounds.width) return;
+    if (padding.isEnabled) {
+      // Pad instead of cutting, once the cropper has reshaped its box
+      if (ratio === cropperAspect) pinCropArea(getPaddedArea(bounds, ratio));
+      else pendingPadRatioRef.current = ratio;
+      return;
     }
+    setCropArea((prev) => fitAreaToRatio(prev, ratio, bounds));
+  };
 
-    setCropArea((prev) => ({
-      ...prev,
-      width: newWidth,
-      height: newHeight,
-    }));
+  // Pads the whole image out to the current crop ratio
+  const handleFitImage = () => {
+    if (!bounds.width) return;
+    pinCropArea(
+      getPaddedArea(bounds, cropperAspect ?? bounds.width / bounds.height)
+    );
+  };
+
+  const handlePaddingChange = (value: PaddingSettings) => {
+    setPadding(value);
+    if (value.isEnabled || !padding.isEnabled) return;
+    // Back to cutting: pull the cropper inside the image again
+    const { media, crop: cropSize } = cropperSizesRef.current;
+    const nextZoom = Math.max(1, zoom);
+    releaseCropArea();
+    setZoom(nextZoom);
+    if (media && cropSize) {
+      setCrop(
+        restrictCropPosition(
+          crop,
+          media,
+          cropSize,
+          nextZoom,
+          transform.rotation
+        )
+      );
+    }
   };
 
   const handleCropAreaChange = (property: keyof Area, value: number) => {
-    // Ensure the crop stays within bounds and respects aspect ratio
-    const newCropArea = { ...cropArea };
-
-    // Set the new value
-    newCropArea[property] = value;
-
-    // Adjust other dimensions based on aspect ratio
-    if (aspectRatio > 0) {
-      if (property === "width") {
-        newCropArea.height = value / aspectRatio;
-      } else if (property === "height") {
-        newCropArea.width = value * aspectRatio;
+    // Keep the aspect ratio while resizing, then pull the crop back inside
+    // the image bounds
+    const ratio =
+      aspectRatio === AspectRatios.ORIGINAL && bounds.width > 0
+        ? bounds.width / bounds.height
+        : aspectRatio;
+    const resized = resizeArea(cropArea, property, value, ratio);
+    const newCropArea = padding.isEnabled
+      ? resized
+      : clampArea(resized, bounds);
+
+    pinCropArea(newCropArea);
+  };
+
+  const handleCropKeyDown = (event: React.KeyboardEvent) => {
+    if (shortcutHelp.isOpen || isOwnKeyTarget(event.target, event.key)) return;
+    const action = getShortcutAction(event);
+    if (!action) return;
+    event.preventDefault();
+
+    switch (action.type) {
+      case "nudge": {
+        releaseCropArea();
+        // Moving the crop right means moving the image under it left
+        const { media, crop: cropSize } = cropperSizesRef.current;
+        const position = { x: crop.x - action.dx, y: crop.y - action.dy };
+        setCrop(
+          media && cropSize && !padding.isEnabled
+            ? restrictCropPosition(
+                position,
+                media,
+                cropSize,
+                zoom,
+                transform.rotation
+              )
+            : position
+        );
+        break;
       }
-    } else if (
-      aspectRatio === AspectRatios.ORIGINAL &&
-      originalDimensions.width > 0
-    ) {
-      const originalRatio =
-        originalDimensions.width / originalDimensions.height;
-      if (property === "width") {
-        newCropArea.height = value / originalRatio;
-      } else if (property === "height") {
-        newCropArea.width = value * originalRatio;
+      case "resize": {
+        // Steps are a percent of the image so large photos resize quickly
+        const step = Math.max(1, Math.round(bounds.width / 100));
+        if (action.dw) {
+          handleCropAreaChange(
+            "width",
+            Math.min(
+              maxCropSize.width,
+              Math.max(1, cropArea.width + action.dw * step)
+            )
+          );
+        } else {
+          handleCropAreaChange(
+            "height",
+            Math.min(
+              maxCropSize.height,
+              Math.max(1, cropArea.height + action.dh * step)
+            )
+          );
+        }
+        break;
       }
+      case "zoom":
+        releaseCropArea();
+        setZoom((prev) =>
+          Math.min(3, Math.max(minZoom, +(prev + action.delta).toFixed(1)))
+        );
+        break;
+      case "aspect":
+        if (!isRatioLocked) {
+          handleAspectRatioChange(AspectRatioOptions[action.index].value);
+        }
+        break;
+      case "crop":
+        handleCropSave();
+        break;
+      case "navigate": {
+        const next = action.direction < 0 ? previousImage : nextImage;
+        if (next) handleOpenCropper(next);
+        break;
+      }
+      case "undo":
+        handleUndo();
+        break;
+      case "redo":
+        handleRedo();
+        break;
+      case "help":
+        shortcutHelp.onOpen();
+        break;
     }
+  };
+
+  const applyEditHistory = (history: EditHistory) => {
+    if (!currentImage) return;
+    editHistoriesRef.current.set(currentImage.id, history);
+    setEditHistory(history);
+
+    const { crop, zoom, aspectRatio, area, transform } = history.present;
+    isAreaPinnedRef.current = true;
+    setCrop(crop);
+    setZoom(zoom);
+    setAspectRatio(aspectRatio);
+    setCropArea(area);
+    setTransform(transform);
+  };
+
+  const handleUndo = () => {
+    if (editHistory?.past.length) applyEditHistory(undo(editHistory));
+  };
+
+  const handleRedo = () => {
+    if (editHistory?.future.length) applyEditHistory(redo(editHistory));
+  };
 
-    // Ensure crop area stays within image bounds
-    if (newCropArea.x < 0) newCropArea.x = 0;
-    if (newCropArea.y < 0) newCropArea.y = 0;
-    if (newCropArea.x + newCropArea.width > originalDimensions.width) {
-      newCropArea.x = originalDimensions.width - newCropArea.width;
+  // Moves the cropper onto an area, or just records it if the cropper has not
+  // reported its size yet
+  const showCropArea = (area: Area, rotation = transform.rotation) => {
+    const { media, crop: cropSize } = cropperSizesRef.current;
+    if (media && cropSize) {
+      const view = getInitialCropFromCroppedAreaPixels(
+        area,
+        media,
+        rotation,
+        cropSize,
+        minZoom,
+        3
+      );
+      setCrop(view.crop);
+      setZoom(view.zoom);
     }
-    if (newCropArea.y + newCropArea.height > originalDimensions.height) {
-      newCropArea.y = originalDimensions.height - newCropArea.height;
+    setCropArea(area);
+  };
+
+  // Shows an exact area and keeps it until the user moves the cropper
+  const pinCropArea = (area: Area, rotation?: number) => {
+    isAreaPinnedRef.current = true;
+    showCropArea(area, rotation);
+  };
+
+  const handleSuggestCrop = async () => {
+    if (!currentImage || !bounds.width) return;
+    setIsSuggesting(true);
+    try {
+      const found = await suggestCrops(
+        currentImage.url,
+        bounds,
+        cropperAspect ?? FREE_CROPPER_ASPECT,
+        { transform }
+      );
+      setSuggestions(found);
+      setSuggestionIndex(0);
+      releaseCropArea();
+      if (found.length > 0) showCropArea(found[0]);
+    } catch (error) {
+      toast({
+        title: "Could not suggest a crop",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setIsSuggesting(false);
     }
+  };
 
-    setCropArea(newCropArea);
-    setCrop({ x: newCropArea.x, y: newCropArea.y });
+  const handleNextSuggestion = () => {
+    const next = (suggestionIndex + 1) % suggestions.length;
+    setSuggestionIndex(next);
+    showCropArea(suggestions[next]);
   };
 
+  const handleDetectTrim = async () => {
+    if (!currentImage || !bounds.width) return;
+    setIsDetectingTrim(true);
+    try {
+      setTrimResult(
+        await detectTrim(currentImage.url, bounds, trimOptions, transform)
+      );
+    } catch (error) {
+      toast({
+        title: "Could not detect borders",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setIsDetectingTrim(false);
+    }
+  };
+
+  const handleApplyTrim = () => {
+    if (!trimResult) return;
+    if (!isRatioLocked) setAspectRatio(AspectRatios.FREE);
+    pinCropArea(
+      isRatioLocked
+        ? fitAreaToRatio(trimResult.area, aspectRatio, bounds)
+        : trimResult.area
+    );
+    setTrimResult(undefined);
+  };
+
+  // Regions of the image in the cropper, which is not kept in sync with
+  // `images`, so changes go through the list
+  const updateRegions = (update: (regions: CropRegion[]) => CropRegion[]) => {
+    if (!currentImage) return;
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === currentImage.id
+          ? { ...img, regions: update(img.regions ?? []) }
+          : img
+      )
+    );
+  };
+
+  // The crop and settings currently in the editor, as a region
+  const captureRegion = (id: string, name: string): CropRegion => ({
+    id,
+    name,
+    area: cropArea,
+    aspectRatio,
+    zoom,
+    transform,
+    outputSettings,
+    exportSettings,
+    shape: toCropShape(cropShape) ? cropShape : undefined,
+    padding: toCropPadding(padding),
+    adjustments: isDefaultAdjustments(adjustments) ? undefined : adjustments,
+  });
+
+  const handleAddRegion = () => {
+    const id = nanoid();
+    updateRegions((regions) => [
+      ...regions,
+      captureRegion(id, getNextRegionName(regions)),
+    ]);
+    setActiveRegionId(id);
+  };
+
+  const handleUpdateRegion = () => {
+    updateRegions((regions) =>
+      regions.map((region) =>
+        region.id === activeRegionId
+          ? captureRegion(region.id, region.name)
+          : region
+      )
+    );
+  };
+
+  const handleSelectRegion = (region: CropRegion) => {
+    setActiveRegionId(region.id);
+    setSuggestions([]);
+    setAspectRatio(region.aspectRatio);
+    setTransform(region.transform);
+    setOutputSettings(region.outputSettings);
+    setExportSettings(region.exportSettings);
+    setCropShape(region.shape ?? DEFAULT_CROP_SHAPE);
+    setPadding((prev) => fromCropPadding(region.padding, prev));
+    setAdjustments(region.adjustments ?? DEFAULT_ADJUSTMENTS);
+    pinCropArea(region.area, region.transform.rotation);
+  };
+
+  const handleRenameRegion = (id: string, name: string) => {
+    updateRegions((regions) =>
+      regions.map((region) => (region.id === id ? { ...region, name } : region))
+    );
+  };
+
+  const handleDeleteRegion = (id: string) => {
+    updateRegions((regions) => regions.filter((region) => region.id !== id));
+    if (id === activeRegionId) setActiveRegionId(null);
+  };
+
+  // Exports every region with its own settings; several files are zipped
+  const handleExportRegions = async () => {
+    if (!currentImage || currentRegions.length === 0) return;
+    setIsExportingRegions(true);
+
+    const files: { name: string; blob: Blob }[] = [];
+    const results: CropResult[] = [];
+    const takenNames = new Set<string>();
+    const date = new Date();
+
+    // Queue every region up front so waiting ones can be cancelled
+    const jobs = currentRegions.map((region) => {
+      const options = getRegionCropOptions(region, currentImage.exif);
+      const job = queueCrop(
+        exportQueue,
+        `${currentImage.name}: ${region.name}`,
+        currentImage,
+        region.area,
+        options
+      );
+      job.catch(() => undefined);
+      return {
+        region,
+        output: options.output,
+        dpi: options.encoding?.dpi,
+        job,
+      };
+    });
+
+    for (const { region, output, dpi, job } of jobs) {
+      try {
+        const blob = await job;
+        files.push({
+          name: makeUniqueName(
+            getRegionFileName(
+              renderFileName(
+                fileNameTemplate,
+                {
+                  sourceName: currentImage.name,
+                  folder: currentImage.folder,
+                  ...(output ?? region.area),
+                  profile: activeProfile?.name,
+                  index: currentRegions.indexOf(region) + 1,
+                  date,
+                },
+                region.exportSettings.format
+              ),
+              region.name
+            ),
+            takenNames
+          ),
+          blob,
+        });
+        results.push({
+          imageId: currentImage.id,
+          settings: {
+            area: region.area,
+            aspectRatio: region.aspectRatio,
+            zoom: region.zoom,
+            transform: region.transform,
+            output,
+            dpi,
+            outputSettings: region.outputSettings,
+            exportSettings: region.exportSettings,
+            shape: region.shape,
+            padding: region.padding,
+            adjustments: region.adjustments,
+            regionName: region.name,
+          },
+          thumbnail: await createThumbnail(blob).catch(() => undefined),
+        });
+      } catch {
+        // Reported below with the other failures
+      }
+    }
+
+    // The crops were made even if zipping them fails below
+    recordCrops(results);
+
+    try {
+      if (files.length === 1) {
+        downloadBlob(
+          files[0].blob,
+          makeUniqueName(files[0].name, downloadNamesRef.current)
+        );
+      } else if (files.length > 1) {
+        const zip = new JSZip();
+        files.forEach((file) => zip.file(file.name, file.blob));
+        const dot = currentImage.name.lastIndexOf(".");
+        downloadBlob(
+          await zip.generateAsync({ type: "blob" }),
+          makeUniqueName(
+            `${
+              dot > 0 ? currentImage.name.slice(0, dot) : currentImage.name
+            }-regions.zip`,
+            downloadNamesRef.current
+          )
+        );
+      }
+
+      const failed = currentRegions.length - results.length;
+      toast({
+        title:
+          failed === 0
+            ? `Exported ${results.length} regions`
+            : `Exported ${results.length} of ${currentRegions.length} regions`,
+        description:
+          failed > 0 ? `${failed} failed or were cancelled` : undefined,
+        status: failed === 0 ? "success" : "warning",
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      toast({
+        title: "ZIP file could not be created",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsExportingRegions(false);
+    }
+  };
+
+  const handleResetCrop = () => {
+    releaseCropArea();
+    setCrop({ x: 0, y: 0 });
+    setZoom(1);
+    setTransform(DEFAULT_TRANSFORM);
+    setAspectRatio(AspectRatios.ORIGINAL);
+    setCropArea({ x: 0, y: 0, ...originalDimensions });
+  };
+
+  // Record an undo step once the editor has been still for a moment, so a
+  // drag or a run of slider changes becomes a single step
+  useEffect(() => {
+    if (!isOpen || !currentImage || isInteracting || cropArea.width <= 0) {
+      return;
+    }
+    const imageId = currentImage.id;
+    const state: EditorState = {
+      crop,
+      zoom,
+      aspectRatio,
+      area: cropArea,
+      transform,
+    };
+    const timeout = setTimeout(() => {
+      const histories = editHistoriesRef.current;
+      const existing = histories.get(imageId);
+      const next = existing ? pushState(existing, state) : createHistory(state);
+      if (next === existing) return;
+      histories.set(imageId, next);
+      setEditHistory(next);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [
+    isOpen,
+    currentImage,
+    isInteracting,
+    crop,
+    zoom,
+    aspectRatio,
+    cropArea,
+    transform,
+  ]);
+
+  // Announce the crop size to screen readers once it settles
+  useEffect(() => {
+    if (!isOpen || cropArea.width <= 0) return;
+    const timeout = setTimeout(
+      () =>
+        setCropAnnouncement(
+          `Crop ${Math.round(cropArea.width)} by ${Math.round(
+            cropArea.height
+          )} pixels at ${Math.round(cropArea.x)}, ${Math.round(cropArea.y)}`
+        ),
+      500
+    );
+    return () => clearTimeout(timeout);
+  }, [cropArea, isOpen]);
+
   // Set initial color mode
   // useEffect(() => {
   //   if (colorMode !== "dark") {
@@ -395,16 +1723,177 @@ function App() {
   //   }
   // }, [colorMode, toggleColorMode]);
 
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(() => setStorageUsage(null));
+  }, []);
+
+  // Restore the saved workspace and export preferences on load
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      loadWorkspace(),
+      loadPreference("exportSettings", DEFAULT_EXPORT_SETTINGS),
+      loadPreference<AspectPreset[]>("aspectPresets", []),
+      loadPreference("outputSettings", DEFAULT_OUTPUT_SETTINGS),
+      loadPreference("trimOptions", DEFAULT_TRIM_OPTIONS),
+      loadPreference<ExportProfile[]>("exportProfiles", []),
+      loadPreference("fileNameTemplate", DEFAULT_FILE_NAME_TEMPLATE),
+      loadPreference("imageLimit", SUGGESTED_IMAGE_LIMIT),
+      loadPreference("cropGuides", DEFAULT_CROP_GUIDES),
+      loadPreference("cropShape", DEFAULT_CROP_SHAPE),
+      loadPreference("padding", DEFAULT_PADDING_SETTINGS),
+    ])
+      .then(
+        ([
+          restoredImages,
+          savedExportSettings,
+          savedAspectPresets,
+          savedOutputSettings,
+          savedTrimOptions,
+          savedExportProfiles,
+          savedFileNameTemplate,
+          savedImageLimit,
+          savedCropGuides,
+          savedCropShape,
+          savedPadding,
+        ]) => {
+          if (cancelled) {
+            restoredImages.forEach(revokeImageUrls);
+            return;
+          }
+          setImages((prev) => [...restoredImages, ...prev]);
+          setExportSettings({
+            ...DEFAULT_EXPORT_SETTINGS,
+            ...savedExportSettings,
+          });
+          setAspectPresets(savedAspectPresets);
+          setOutputSettings({
+            ...DEFAULT_OUTPUT_SETTINGS,
+            ...savedOutputSettings,
+          });
+          setTrimOptions({ ...DEFAULT_TRIM_OPTIONS, ...savedTrimOptions });
+          setExportProfiles(savedExportProfiles);
+          setFileNameTemplate(savedFileNameTemplate);
+          setImageLimit(savedImageLimit);
+          setCropGuides(savedCropGuides);
+          setCropShape({ ...DEFAULT_CROP_SHAPE, ...savedCropShape });
+          setPadding({ ...DEFAULT_PADDING_SETTINGS, ...savedPadding });
+          setIsWorkspaceLoaded(true);
+        }
+      )
+      .catch(() => {
+        if (cancelled) return;
+        toast({
+          title: "Workspace could not be restored",
+          description: "Changes in this session will not be saved",
+          status: "warning",
+          duration: 5000,
+          isClosable: true,
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  // Persist the workspace whenever images or their crops change
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    saveWorkspace(images)
+      .catch(() => {
+        if (toast.isActive("workspace-save-error")) return;
+        toast({
+          id: "workspace-save-error",
+          title: "Workspace could not be saved",
+          description: "Browser storage may be full",
+          status: "warning",
+          duration: 5000,
+          isClosable: true,
+        });
+      })
+      .finally(refreshStorageUsage);
+  }, [images, isWorkspaceLoaded, toast, refreshStorageUsage]);
+
+  // Remember export preferences between sessions
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("exportSettings", exportSettings).catch(() => {});
+  }, [exportSettings, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("aspectPresets", aspectPresets).catch(() => {});
+  }, [aspectPresets, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("outputSettings", outputSettings).catch(() => {});
+  }, [outputSettings, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("trimOptions", trimOptions).catch(() => {});
+  }, [trimOptions, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("exportProfiles", exportProfiles).catch(() => {});
+  }, [exportProfiles, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("fileNameTemplate", fileNameTemplate).catch(() => {});
+  }, [fileNameTemplate, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("imageLimit", imageLimit).catch(() => {});
+  }, [imageLimit, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("cropGuides", cropGuides).catch(() => {});
+  }, [cropGuides, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("cropShape", cropShape).catch(() => {});
+  }, [cropShape, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    savePreference("padding", padding).catch(() => {});
+  }, [padding, isWorkspaceLoaded]);
+
+  // Keep the grid view in the URL so it can be bookmarked
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${pathname}${serializeGridView(gridView, search)}${hash}`
+    );
+  }, [gridView]);
+
+  // A detected trim only fits the rotation it was detected with
+  useEffect(() => {
+    setTrimResult(undefined);
+  }, [transform]);
+
   // Clean up object URLs when component unmounts
   useEffect(() => {
     return () => {
-      images.forEach((image) => URL.revokeObjectURL(image.url));
+      imagesRef.current.forEach(revokeImageUrls);
     };
-  }, [images]);
+  }, []);
 
   return (
     <Box
-      {...getRootProps()}
+      {...getRootProps({ onDrop: handleLinkDrop })}
       minH="100vh"
       p={4}
       borderWidth={isDragActive ? "2px" : "0px"}
@@ -417,6 +1906,31 @@ function App() {
       <Flex justify="space-between" align="center" mb={6}>
         <Heading size="lg">Image Cropper</Heading>
         <Flex align="center" gap={4}>
+          {storageUsage && (
+            <Tooltip label="Browser storage used by the saved workspace">
+              <Text fontSize="sm" color="gray.500" whiteSpace="nowrap">
+                {formatBytes(storageUsage.usage)}
+                {storageUsage.quota > 0 &&
+                  ` of ${formatBytes(storageUsage.quota)}`}
+              </Text>
+            </Tooltip>
+          )}
+
+          <ImageLimitSetting
+            value={imageLimit}
+            onChange={setImageLimit}
+            suggested={SUGGESTED_IMAGE_LIMIT}
+          />
+
+          <Button
+            variant="ghost"
+            onClick={clearDialog.onOpen}
+            isDisabled={images.length === 0}
+            flexShrink={0}
+          >
+            Clear Workspace
+          </Button>
+
           <FormControl display="flex" alignItems="center">
             <FormLabel htmlFor="theme-toggle" mb="0">
               {colorMode === "dark" ? "Dark" : "Light"} Mode
@@ -452,6 +1966,33 @@ function App() {
               }
             }}
           />
+
+          <Button
+            variant="outline"
+            onClick={() => document.getElementById("folder-input")?.click()}
+            leftIcon={
+              <Box as="span" fontSize="lg">
+                🗂️
+              </Box>
+            }
+            flexShrink={0}
+          >
+            Choose Folder
+          </Button>
+          <input
+            id="folder-input"
+            type="file"
+            multiple
+            style={{ display: "none" }}
+            // Not in React's types; selects a folder and everything below it
+            {...{ webkitdirectory: "" }}
+            onChange={(e) => {
+              if (e.target.files) {
+                onDrop(Array.from(e.target.files));
+                e.target.value = "";
+              }
+            }}
+          />
         </Flex>
       </Flex>
 
@@ -498,125 +2039,391 @@ function App() {
             </VStack>
           </Center>
         ) : (
-          <Grid
-            templateColumns={{
-              base: "repeat(1, 1fr)",
-              sm: "repeat(2, 1fr)",
-              md: "repeat(3, 1fr)",
-              lg: "repeat(4, 1fr)",
-              xl: "repeat(5, 1fr)",
-            }}
-            gap={6}
-            w="100%"
-          >
-            {images.map((image) => (
-              <Card key={image.id} overflow="hidden" variant="outline">
-                <Box position="relative">
-                  <Image
-                    src={image.url}
-                    alt={image.name}
-                    objectFit="cover"
-                    h="200px"
-                    w="100%"
-                  />
-                  {image.cropped && (
-                    <Badge
-                      position="absolute"
-                      top={2}
-                      right={2}
-                      colorScheme="green"
-                      fontSize="xs"
-                      px={2}
-                      py={1}
-                      borderRadius="full"
+          <>
+            <GridToolbar view={gridView} onChange={setGridView} />
+
+            <Flex
+              w="100%"
+              justify="space-between"
+              align="center"
+              mb={4}
+              gap={2}
+              wrap="wrap"
+            >
+              <Text fontSize="sm" color="gray.500">
+                {selectedImages.length} of {visibleImages.length} selected
+                {visibleImages.length < images.length &&
+                  ` (${
+                    images.length - visibleImages.length
+                  } hidden by filters)`}
+              </Text>
+              <Flex gap={2} wrap="wrap">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  isDisabled={visibleImages.length === 0}
+                  onClick={handleSelectAllVisible}
+                >
+                  {isAllVisibleSelected ? "Clear Selection" : "Select All"}
+                </Button>
+                <Button size="sm" onClick={trimAllDisclosure.onOpen}>
+                  Auto-trim All
+                </Button>
+                {selectedImages.length > 0 && (
+                  <>
+                    <Button
+                      size="sm"
+                      isLoading={isZippingOriginals}
+                      loadingText="Zipping"
+                      onClick={handleDownloadOriginals}
                     >
-                      Cropped
-                    </Badge>
-                  )}
-                </Box>
-
-                <CardBody py={2}>
-                  <Text
-                    fontWeight="bold"
-                    fontSize="sm"
-                    noOfLines={1}
-                    title={image.name}
-                  >
-                    {image.name}
-                  </Text>
-                  <Text fontSize="xs" color="gray.500">
-                    {(image.size / (1024 * 1024)).toFixed(2)} MB
-                  </Text>
-                </CardBody>
-
-                <Divider />
-
-                <CardFooter py={2} px={4} justifyContent="space-between">
-                  <Tooltip label="Crop Image">
-                    <IconButton
-                      aria-label="Crop Image"
-                      icon={<Box as="span">✂️</Box>}
+                      Download Originals
+                    </Button>
+                    <Button
                       size="sm"
-                      variant="ghost"
-                      onClick={() => handleOpenCropper(image)}
-                    />
-                  </Tooltip>
-
-                  <Tooltip label="Crop History">
-                    <IconButton
-                      aria-label="Crop History"
-                      icon={<Box as="span">📜</Box>}
+                      isDisabled={
+                        !selectedImages.some(
+                          (image) => image.cropHistory.length > 0
+                        )
+                      }
+                      onClick={handleClearSelectedHistory}
+                    >
+                      Clear History
+                    </Button>
+                    <Button
                       size="sm"
-                      variant="ghost"
-                      isDisabled={image.cropHistory.length === 0}
-                      onClick={() => {
-                        toast({
-                          title: "Crop History",
-                          description: (
-                            <List spacing={1}>
-                              {image.cropHistory.length > 0 ? (
-                                image.cropHistory.map((crop) => (
-                                  <ListItem key={crop.id}>
-                                    <Text fontSize="sm">
-                                      {crop.dimensions} -{" "}
-                                      {crop.timestamp.toLocaleTimeString()}
-                                    </Text>
-                                  </ListItem>
-                                ))
-                              ) : (
-                                <ListItem>No crop history</ListItem>
-                              )}
-                            </List>
-                          ),
-                          status: "info",
-                          duration: 5000,
-                          isClosable: true,
-                        });
-                      }}
-                    />
-                  </Tooltip>
+                      colorScheme="red"
+                      variant="outline"
+                      onClick={deleteDialog.onOpen}
+                    >
+                      Delete
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  colorScheme="blue"
+                  isDisabled={selectedImages.length === 0}
+                  onClick={batchDisclosure.onOpen}
+                >
+                  Crop with Preset ({selectedImages.length})
+                </Button>
+              </Flex>
+            </Flex>
+
+            {visibleImages.length === 0 && (
+              <Center h="200px" w="100%">
+                <Text color="gray.500">
+                  No images match the current search and filter
+                </Text>
+              </Center>
+            )}
 
-                  <Tooltip label="Delete Image">
-                    <IconButton
-                      aria-label="Delete Image"
-                      icon={<Box as="span">🗑️</Box>}
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleDelete(image.id)}
+            <VirtualGrid
+              items={visibleImages}
+              getKey={(image) => image.id}
+              rowHeight={CARD_HEIGHT}
+              renderItem={(image) => (
+                <Card h="100%" overflow="hidden" variant="outline">
+                  <Box position="relative">
+                    {image.thumbnail === undefined ? (
+                      <Skeleton h="200px" w="100%" />
+                    ) : (
+                      <Image
+                        src={image.thumbnailUrl ?? image.url}
+                        alt={image.name}
+                        objectFit="cover"
+                        h="200px"
+                        w="100%"
+                        decoding="async"
+                      />
+                    )}
+                    <Checkbox
+                      position="absolute"
+                      top={2}
+                      left={2}
+                      bg="whiteAlpha.800"
+                      borderRadius="sm"
+                      aria-label={`Select ${image.name}`}
+                      isChecked={selectedIds.includes(image.id)}
+                      onChange={(event) =>
+                        handleSelect(
+                          image.id,
+                          event.target.checked,
+                          // React reports checkbox changes from the click
+                          (event.nativeEvent as MouseEvent).shiftKey === true
+                        )
+                      }
                     />
-                  </Tooltip>
-                </CardFooter>
-              </Card>
-            ))}
-          </Grid>
+                    {image.cropped && (
+                      <Badge
+                        position="absolute"
+                        top={2}
+                        right={2}
+                        colorScheme="green"
+                        fontSize="xs"
+                        px={2}
+                        py={1}
+                        borderRadius="full"
+                      >
+                        Cropped
+                      </Badge>
+                    )}
+                  </Box>
+
+                  <CardBody py={2}>
+                    <Text
+                      fontWeight="bold"
+                      fontSize="sm"
+                      noOfLines={1}
+                      title={
+                        image.folder
+                          ? `${image.folder}/${image.name}`
+                          : image.name
+                      }
+                    >
+                      {image.name}
+                    </Text>
+                    <Text fontSize="xs" color="gray.500">
+                      {(image.size / (1024 * 1024)).toFixed(2)} MB
+                    </Text>
+                    {image.exif && (
+                      <Flex
+                        fontSize="xs"
+                        color="gray.500"
+                        align="center"
+                        gap={1}
+                      >
+                        <Text noOfLines={1} flex="1">
+                          {[
+                            getCameraName(image.exif),
+                            parseExifDate(
+                              image.exif.dateTaken
+                            )?.toLocaleDateString(),
+                          ]
+                            .filter(Boolean)
+                            .join(" · ") || "No camera details"}
+                        </Text>
+                        {image.exif.hasGps && (
+                          <Tooltip label="Contains GPS location">
+                            <Badge colorScheme="orange" fontSize="2xs">
+                              GPS
+                            </Badge>
+                          </Tooltip>
+                        )}
+                      </Flex>
+                    )}
+                  </CardBody>
+
+                  <Divider />
+
+                  <CardFooter py={2} px={4} justifyContent="space-between">
+                    <Tooltip label="Crop Image">
+                      <IconButton
+                        aria-label="Crop Image"
+                        icon={<Box as="span">✂️</Box>}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleOpenCropper(image)}
+                      />
+                    </Tooltip>
+
+                    <Menu>
+                      <Tooltip label="Export with profile">
+                        <MenuButton
+                          as={IconButton}
+                          aria-label="Export with profile"
+                          icon={<Box as="span">📤</Box>}
+                          size="sm"
+                          variant="ghost"
+                          isDisabled={exportProfiles.length === 0}
+                        />
+                      </Tooltip>
+                      <MenuList>
+                        {exportProfiles.map((profile) => (
+                          <MenuItem
+                            key={profile.id}
+                            onClick={() => handleProfileExport(image, profile)}
+                          >
+                            {profile.name}
+                          </MenuItem>
+                        ))}
+                      </MenuList>
+                    </Menu>
+
+                    <Tooltip label="Crop History">
+                      <IconButton
+                        aria-label="Crop History"
+                        icon={<Box as="span">📜</Box>}
+                        size="sm"
+                        variant="ghost"
+                        isDisabled={image.cropHistory.length === 0}
+                        onClick={() => {
+                          setHistoryImageId(image.id);
+                          historyDisclosure.onOpen();
+                        }}
+                      />
+                    </Tooltip>
+
+                    <Tooltip label="Delete Image">
+                      <IconButton
+                        aria-label="Delete Image"
+                        icon={<Box as="span">🗑️</Box>}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(image.id)}
+                      />
+                    </Tooltip>
+                  </CardFooter>
+                </Card>
+              )}
+            />
+          </>
         )}
       </Container>
 
+      <AlertDialog
+        isOpen={clearDialog.isOpen}
+        onClose={clearDialog.onClose}
+        leastDestructiveRef={clearDialogCancelRef}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader>Clear Workspace</AlertDialogHeader>
+            <AlertDialogBody>
+              Remove all {images.length} images and their crop history from this
+              browser? This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={clearDialogCancelRef} onClick={clearDialog.onClose}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" ml={3} onClick={handleClearWorkspace}>
+                Clear
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+
+      <AlertDialog
+        isOpen={deleteDialog.isOpen}
+        onClose={deleteDialog.onClose}
+        leastDestructiveRef={deleteDialogCancelRef}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader>Delete Images</AlertDialogHeader>
+            <AlertDialogBody>
+              Remove the {selectedImages.length} selected images and their crop
+              history from this browser? This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button
+                ref={deleteDialogCancelRef}
+                onClick={deleteDialog.onClose}
+              >
+                Cancel
+              </Button>
+              <Button colorScheme="red" ml={3} onClick={handleDeleteSelected}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+
+      <CropHistoryDrawer
+        image={historyImage}
+        aspectPresets={aspectPresets}
+        isOpen={historyDisclosure.isOpen}
+        onClose={historyDisclosure.onClose}
+        onRestore={handleHistoryRestore}
+        onDownload={handleHistoryDownload}
+        onCopy={canCopyImages() ? handleHistoryCopy : undefined}
+        onDelete={handleHistoryDelete}
+      />
+
+      <AutoTrimAllModal
+        isOpen={trimAllDisclosure.isOpen}
+        onClose={trimAllDisclosure.onClose}
+        images={images}
+        options={trimOptions}
+        onOptionsChange={setTrimOptions}
+        onApply={handleApplyTrims}
+      />
+
+      <BatchCropModal
+        isOpen={batchDisclosure.isOpen}
+        onClose={batchDisclosure.onClose}
+        images={selectedImages}
+        onComplete={handleBatchComplete}
+        exportSettings={exportSettings}
+        onExportSettingsChange={setExportSettings}
+        fileNameTemplate={fileNameTemplate}
+        onFileNameTemplateChange={setFileNameTemplate}
+        aspectPresets={aspectPresets}
+        onAspectPresetsChange={setAspectPresets}
+        exportQueue={exportQueue}
+      />
+
       <Modal isOpen={isOpen} onClose={onClose} size="xl">
         <ModalOverlay />
-        <ModalContent>
-          <ModalHeader>Crop Image</ModalHeader>
+        <ModalContent onKeyDown={handleCropKeyDown}>
+          <ModalHeader pr={12}>
+            <Flex justify="space-between" align="center">
+              <Text>
+                Crop Image
+                {visibleIndex >= 0 && visibleImages.length > 1 && (
+                  <Text as="span" fontSize="sm" color="gray.500" ml={2}>
+                    {visibleIndex + 1} of {visibleImages.length}
+                  </Text>
+                )}
+              </Text>
+              <Flex gap={1}>
+                <Tooltip label="Previous image ([)">
+                  <IconButton
+                    aria-label="Previous image"
+                    icon={<Box as="span">‹</Box>}
+                    size="sm"
+                    variant="ghost"
+                    isDisabled={!previousImage}
+                    onClick={() =>
+                      previousImage && handleOpenCropper(previousImage)
+                    }
+                  />
+                </Tooltip>
+                <Tooltip label="Next image (])">
+                  <IconButton
+                    aria-label="Next image"
+                    icon={<Box as="span">›</Box>}
+                    size="sm"
+                    variant="ghost"
+                    isDisabled={!nextImage}
+                    onClick={() => nextImage && handleOpenCropper(nextImage)}
+                  />
+                </Tooltip>
+                <Tooltip label="Keyboard shortcuts (?)">
+                  <IconButton
+                    aria-label="Keyboard shortcuts"
+                    icon={<Box as="span">⌨️</Box>}
+                    size="sm"
+                    variant="ghost"
+                    onClick={shortcutHelp.onOpen}
+                  />
+                </Tooltip>
+              </Flex>
+            </Flex>
+          </ModalHeader>
           <ModalCloseButton />
+          <VisuallyHidden id="crop-shortcuts-hint">
+            Use the arrow keys to move the crop, Alt and the arrow keys to
+            resize it, plus and minus to zoom and Enter to crop and download.
+            Press question mark to list all shortcuts.
+          </VisuallyHidden>
+          <VisuallyHidden role="status" aria-live="polite">
+            {cropAnnouncement}
+          </VisuallyHidden>
 
           <ModalBody>
             {currentImage && (
@@ -629,31 +2436,183 @@ function App() {
                     onLoad={handleImageLoad}
                     alt="Original"
                   />
+                  {cropperSizesRef.current.media && (
+                    <RegionOutlines
+                      regions={currentRegions.filter(
+                        (region) =>
+                          region.id !== activeRegionId &&
+                          region.transform.rotation === transform.rotation &&
+                          region.transform.flipHorizontal ===
+                            transform.flipHorizontal &&
+                          region.transform.flipVertical ===
+                            transform.flipVertical
+                      )}
+                      bounds={bounds}
+                      crop={crop}
+                      scale={
+                        (zoom * cropperSizesRef.current.media.width) /
+                        cropperSizesRef.current.media.naturalWidth
+                      }
+                    />
+                  )}
+                  {cropBoxSize &&
+                    (cropShape.type === "rounded" ||
+                      cropShape.type === "mask") && (
+                      <CropShapePreview shape={cropShape} size={cropBoxSize} />
+                    )}
+                  <AdjustmentsFilter
+                    id="crop-adjustments"
+                    adjustments={adjustments}
+                  />
+                  {cropBoxSize && cropGuides.length > 0 && (
+                    <CropGuidesOverlay
+                      guides={cropGuides}
+                      size={cropBoxSize}
+                      bleed={getPrintBleed(outputSettings)}
+                    />
+                  )}
                   <Cropper
                     image={currentImage.url}
                     crop={crop}
                     zoom={zoom}
-                    aspect={aspectRatio > 0 ? aspectRatio : undefined}
+                    aspect={cropperAspect}
                     onCropChange={setCrop}
                     onCropComplete={handleCropComplete}
+                    initialCroppedAreaPixels={initialCropArea}
                     onZoomChange={setZoom}
-                    showGrid
+                    rotation={transform.rotation}
+                    onRotationChange={(rotation) =>
+                      setTransform((prev) => ({ ...prev, rotation }))
+                    }
+                    transform={getCropperTransform(crop, zoom, transform)}
+                    showGrid={false}
+                    restrictPosition={!padding.isEnabled}
+                    minZoom={minZoom}
+                    cropShape={cropShape.type === "ellipse" ? "round" : "rect"}
+                    keyboardStep={0}
+                    onInteractionStart={() => {
+                      releaseCropArea();
+                      setIsInteracting(true);
+                    }}
+                    onInteractionEnd={() => setIsInteracting(false)}
+                    onCropAreaChange={handleCropComplete}
+                    onMediaLoaded={(media) => {
+                      cropperSizesRef.current.media = media;
+                    }}
+                    onCropSizeChange={(cropSize) => {
+                      cropperSizesRef.current.crop = cropSize;
+                      setCropBoxSize(cropSize);
+                      const padRatio = pendingPadRatioRef.current;
+                      if (padRatio && bounds.width) {
+                        pendingPadRatioRef.current = null;
+                        pinCropArea(getPaddedArea(bounds, padRatio));
+                      }
+                    }}
+                    mediaProps={{ alt: currentImage.name }}
+                    style={{
+                      mediaStyle: isDefaultAdjustments(adjustments)
+                        ? {}
+                        : { filter: "url(#crop-adjustments)" },
+                    }}
+                    cropperProps={{
+                      "aria-label": "Crop area",
+                      "aria-describedby": "crop-shortcuts-hint",
+                    }}
                   />
                 </Box>
 
+                {padding.isEnabled && isPaddedArea(cropArea, bounds) && (
+                  <Box mb={4}>
+                    <CropResultPreview
+                      image={imageRef.current}
+                      area={cropArea}
+                      transform={transform}
+                      padding={toCropPadding(padding)}
+                      adjustments={adjustments}
+                    />
+                  </Box>
+                )}
+
+                <Flex justify="space-between" align="center" mb={4}>
+                  <Flex gap={1}>
+                    <Tooltip label="Undo (Ctrl+Z)">
+                      <IconButton
+                        aria-label="Undo"
+                        icon={<Box as="span">↶</Box>}
+                        size="sm"
+                        variant="ghost"
+                        isDisabled={!editHistory?.past.length}
+                        onClick={handleUndo}
+                      />
+                    </Tooltip>
+                    <Tooltip label="Redo (Ctrl+Shift+Z)">
+                      <IconButton
+                        aria-label="Redo"
+                        icon={<Box as="span">↷</Box>}
+                        size="sm"
+                        variant="ghost"
+                        isDisabled={!editHistory?.future.length}
+                        onClick={handleRedo}
+                      />
+                    </Tooltip>
+                    <CropGuidesMenu
+                      guides={cropGuides}
+                      onChange={setCropGuides}
+                    />
+                  </Flex>
+                  <Flex gap={1}>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={handleSuggestCrop}
+                      isLoading={isSuggesting}
+                    >
+                      ✨ Suggest crop
+                    </Button>
+                    {suggestions.length > 1 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={handleNextSuggestion}
+                      >
+                        Next ({suggestionIndex + 1}/{suggestions.length})
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={handleResetCrop}>
+                      Reset to full image
+                    </Button>
+                  </Flex>
+                </Flex>
+
                 <Stack spacing={4}>
+                  <Flex justify="space-between" align="center">
+                    <Text fontWeight="bold">Profile</Text>
+                    <Box w="70%">
+                      <ExportProfilePicker
+                        profiles={exportProfiles}
+                        onProfilesChange={setExportProfiles}
+                        activeId={activeProfileId}
+                        onApply={handleApplyProfile}
+                        onSaveCurrent={handleSaveProfile}
+                      />
+                    </Box>
+                  </Flex>
+
                   <Flex justify="space-between" align="center">
                     <Text fontWeight="bold">Zoom</Text>
                     <Flex w="70%" align="center">
                       <Text mr={2} fontSize="sm">
-                        1x
+                        {minZoom}x
                       </Text>
                       <Slider
                         value={zoom}
-                        min={1}
+                        min={minZoom}
                         max={3}
                         step={0.1}
-                        onChange={(value) => setZoom(value)}
+                        onChange={(value) => {
+                          releaseCropArea();
+                          setZoom(value);
+                        }}
                         flex="1"
                       >
                         <SliderTrack>
@@ -667,21 +2626,89 @@ function App() {
                     </Flex>
                   </Flex>
 
+                  <Flex justify="space-between" align="center">
+                    <Text fontWeight="bold">Rotation</Text>
+                    <Flex w="70%" align="center" gap={1}>
+                      <Tooltip label="Rotate left">
+                        <IconButton
+                          aria-label="Rotate left"
+                          icon={<Box as="span">↺</Box>}
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRotate(-90)}
+                        />
+                      </Tooltip>
+                      <Tooltip label="Rotate right">
+                        <IconButton
+                          aria-label="Rotate right"
+                          icon={<Box as="span">↻</Box>}
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRotate(90)}
+                        />
+                      </Tooltip>
+                      <Slider
+                        aria-label="Fine rotation"
+                        value={transform.rotation}
+                        min={-180}
+                        max={180}
+                        step={1}
+                        onChange={(rotation) =>
+                          setTransform((prev) => ({ ...prev, rotation }))
+                        }
+                        flex="1"
+                        mx={2}
+                      >
+                        <SliderTrack>
+                          <SliderFilledTrack />
+                        </SliderTrack>
+                        <SliderThumb />
+                      </Slider>
+                      <Text fontSize="sm" w="5ch" textAlign="right">
+                        {Math.round(transform.rotation)}°
+                      </Text>
+                      <Tooltip label="Flip horizontal">
+                        <IconButton
+                          aria-label="Flip horizontal"
+                          icon={<Box as="span">⇆</Box>}
+                          size="sm"
+                          variant={transform.flipHorizontal ? "solid" : "ghost"}
+                          onClick={() => handleFlip("flipHorizontal")}
+                        />
+                      </Tooltip>
+                      <Tooltip label="Flip vertical">
+                        <IconButton
+                          aria-label="Flip vertical"
+                          icon={<Box as="span">⇅</Box>}
+                          size="sm"
+                          variant={transform.flipVertical ? "solid" : "ghost"}
+                          onClick={() => handleFlip("flipVertical")}
+                        />
+                      </Tooltip>
+                    </Flex>
+                  </Flex>
+
                   <Flex justify="space-between" align="center">
                     <Text fontWeight="bold">Aspect Ratio</Text>
-                    <Select
-                      w="70%"
-                      value={aspectRatio}
-                      onChange={handleAspectRatioChange}
-                    >
-                      <option value={AspectRatios.FREE}>Free-form</option>
-                      <option value={AspectRatios.ORIGINAL}>Original</option>
-                      <option value={1}>1:1 (Square)</option>
-                      <option value={16 / 9}>16:9</option>
-                      <option value={4 / 3}>4:3</option>
-                      <option value={3 / 2}>3:2</option>
-                      <option value={9 / 16}>9:16 (Portrait)</option>
-                    </Select>
+                    <Box w="70%">
+                      <AspectRatioPicker
+                        value={aspectRatio}
+                        onChange={handleAspectRatioChange}
+                        savedPresets={aspectPresets}
+                        onSavedPresetsChange={setAspectPresets}
+                        originalRatio={
+                          bounds.height > 0
+                            ? bounds.width / bounds.height
+                            : undefined
+                        }
+                        isDisabled={isRatioLocked}
+                      />
+                      {isRatioLocked && (
+                        <Text fontSize="xs" color="gray.500" mt={1}>
+                          Set by the output size
+                        </Text>
+                      )}
+                    </Box>
                   </Flex>
 
                   <Divider />
@@ -693,8 +2720,12 @@ function App() {
                     <FormControl>
                       <FormLabel fontSize="sm">X Position</FormLabel>
                       <NumberInput
-                        min={0}
-                        max={originalDimensions.width - cropArea.width}
+                        min={padding.isEnabled ? -maxCropSize.width : 0}
+                        max={
+                          padding.isEnabled
+                            ? bounds.width
+                            : bounds.width - cropArea.width
+                        }
                         value={Math.round(cropArea.x)}
                         onChange={(_, value) =>
                           handleCropAreaChange("x", value)
@@ -711,8 +2742,12 @@ function App() {
                     <FormControl>
                       <FormLabel fontSize="sm">Y Position</FormLabel>
                       <NumberInput
-                        min={0}
-                        max={originalDimensions.height - cropArea.height}
+                        min={padding.isEnabled ? -maxCropSize.height : 0}
+                        max={
+                          padding.isEnabled
+                            ? bounds.height
+                            : bounds.height - cropArea.height
+                        }
                         value={Math.round(cropArea.y)}
                         onChange={(_, value) =>
                           handleCropAreaChange("y", value)
@@ -730,7 +2765,7 @@ function App() {
                       <FormLabel fontSize="sm">Width</FormLabel>
                       <NumberInput
                         min={10}
-                        max={originalDimensions.width}
+                        max={maxCropSize.width}
                         value={Math.round(cropArea.width)}
                         onChange={(_, value) =>
                           handleCropAreaChange("width", value)
@@ -748,7 +2783,7 @@ function App() {
                       <FormLabel fontSize="sm">Height</FormLabel>
                       <NumberInput
                         min={10}
-                        max={originalDimensions.height}
+                        max={maxCropSize.height}
                         value={Math.round(cropArea.height)}
                         onChange={(_, value) =>
                           handleCropAreaChange("height", value)
@@ -763,6 +2798,115 @@ function App() {
                     </FormControl>
                   </Grid>
 
+                  <Divider />
+
+                  <Stack spacing={3}>
+                    <Flex justify="space-between" align="center">
+                      <Text fontWeight="bold">Auto-trim</Text>
+                      <Button
+                        size="sm"
+                        onClick={handleDetectTrim}
+                        isLoading={isDetectingTrim}
+                      >
+                        Detect borders
+                      </Button>
+                    </Flex>
+                    <AutoTrimOptions
+                      value={trimOptions}
+                      onChange={(value) => {
+                        setTrimOptions(value);
+                        setTrimResult(undefined);
+                      }}
+                    />
+                    {trimResult !== undefined && (
+                      <Flex justify="space-between" align="center">
+                        <Text fontSize="sm" role="status">
+                          {describeTrim(trimResult)}
+                        </Text>
+                        {trimResult && (
+                          <Button
+                            size="sm"
+                            colorScheme="blue"
+                            onClick={handleApplyTrim}
+                          >
+                            Apply
+                          </Button>
+                        )}
+                      </Flex>
+                    )}
+                  </Stack>
+
+                  <Divider />
+
+                  <AdjustmentsPanel
+                    value={adjustments}
+                    onChange={setAdjustments}
+                  />
+
+                  <Divider />
+
+                  <OutputSizeOptions
+                    value={outputSettings}
+                    onChange={handleOutputSettingsChange}
+                    cropSize={cropArea}
+                  />
+
+                  <Divider />
+
+                  <CropShapeOptions
+                    value={cropShape}
+                    onChange={setCropShape}
+                    format={exportSettings.format}
+                  />
+
+                  <Divider />
+
+                  <PaddingOptions
+                    value={padding}
+                    onChange={handlePaddingChange}
+                    onFitImage={handleFitImage}
+                    format={exportSettings.format}
+                  />
+
+                  <Divider />
+
+                  <Text fontWeight="bold" mb={1}>
+                    Export
+                  </Text>
+                  <ExportOptions
+                    value={exportSettings}
+                    onChange={setExportSettings}
+                  />
+                  <FileNameTemplateInput
+                    value={fileNameTemplate}
+                    onChange={setFileNameTemplate}
+                    format={exportSettings.format}
+                    preview={{
+                      sourceName: currentImage.name,
+                      folder: currentImage.folder,
+                      ...(resolveOutputSize(outputSettings, cropArea) ??
+                        cropArea),
+                      profile: activeProfile?.name,
+                      index: currentIndex + 1,
+                      date: new Date(),
+                    }}
+                  />
+
+                  <Divider />
+
+                  <CropRegionList
+                    regions={currentRegions}
+                    activeId={activeRegionId}
+                    aspectPresets={aspectPresets}
+                    onAdd={handleAddRegion}
+                    onSelect={handleSelectRegion}
+                    onUpdate={handleUpdateRegion}
+                    onRename={handleRenameRegion}
+                    onDelete={handleDeleteRegion}
+                    onExport={handleExportRegions}
+                    isExporting={isExportingRegions}
+                  />
+
                   <Box>
                     <Text fontSize="sm" color="gray.500">
                       Original Image: {originalDimensions.width} x{" "}
@@ -782,12 +2926,29 @@ function App() {
             <Button variant="ghost" mr={3} onClick={onClose}>
               Cancel
             </Button>
+            {canCopyImages() && (
+              <Button mr={3} onClick={handleCropCopy}>
+                Copy to Clipboard
+              </Button>
+            )}
             <Button colorScheme="blue" onClick={handleCropSave}>
               Crop & Download
             </Button>
           </ModalFooter>
         </ModalContent>
       </Modal>
+
+      <ShortcutHelpModal
+        isOpen={shortcutHelp.isOpen}
+        onClose={shortcutHelp.onClose}
+      />
+
+      <ExportQueuePanel
+        jobs={exportJobs}
+        onCancel={exportQueue.cancel}
+        onCancelAll={exportQueue.cancelAll}
+        onClear={exportQueue.clearFinished}
+      />
     </Box>
   );
 }
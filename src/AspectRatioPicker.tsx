@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Input,
+  Popover,
+  PopoverArrow,
+  PopoverBody,
+  PopoverContent,
+  PopoverTrigger,
+  Select,
+  Stack,
+  Text,
+  Tooltip,
+} from "@chakra-ui/react";
+import { nanoid } from "nanoid";
+import { AspectRatioOptions, AspectRatios } from "./types";
+import {
+  AspectPreset,
+  formatRatio,
+  getPresetRatio,
+  parseRatio,
+  PlatformPresets,
+} from "./aspectPresets";
+
+interface AspectRatioPickerProps {
+  value: number;
+  onChange: (value: number) => void;
+  savedPresets: AspectPreset[];
+  onSavedPresetsChange: (presets: AspectPreset[]) => void;
+  // Ratio of the image, used when swapping the orientation of "Original"
+  originalRatio?: number;
+  isDisabled?: boolean;
+}
+
+const CUSTOM_KEY = "custom";
+
+interface PickerOption {
+  key: string;
+  label: string;
+  ratio: number;
+}
+
+export const AspectRatioPicker = ({
+  value,
+  onChange,
+  savedPresets,
+  onSavedPresetsChange,
+  originalRatio,
+  isDisabled,
+}: AspectRatioPickerProps) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [ratioText, setRatioText] = useState(formatRatio(value));
+  const [presetName, setPresetName] = useState("");
+
+  const basicOptions: PickerOption[] = AspectRatioOptions.map((option) => ({
+    key: `basic:${option.value}`,
+    label: option.label,
+    ratio: option.value,
+  }));
+  const toOption =
+    (prefix: string) =>
+    (preset: AspectPreset): PickerOption => ({
+      key: `${prefix}:${preset.id}`,
+      label: `${preset.label} (${formatRatio(getPresetRatio(preset))})`,
+      ratio: getPresetRatio(preset),
+    });
+  const platformGroups = PlatformPresets.map((group) => ({
+    label: group.label,
+    options: group.presets.map(toOption("platform")),
+  }));
+  const savedOptions = savedPresets.map(toOption("saved"));
+  const allOptions = [
+    ...basicOptions,
+    ...platformGroups.flatMap((group) => group.options),
+    ...savedOptions,
+  ];
+
+  // Several presets share a ratio, so remember which one the user picked
+  const matches = (option: PickerOption) =>
+    Math.abs(option.ratio - value) < 0.0001;
+  const selected =
+    allOptions.find(
+      (option) => option.key === selectedKey && matches(option)
+    ) ?? allOptions.find(matches);
+
+  useEffect(() => {
+    setRatioText(formatRatio(value));
+  }, [value]);
+
+  const handleSelect = (key: string) => {
+    const option = allOptions.find((entry) => entry.key === key);
+    if (!option) return;
+    setSelectedKey(key);
+    onChange(option.ratio);
+  };
+
+  const applyRatioText = () => {
+    const ratio = parseRatio(ratioText);
+    if (ratio) onChange(ratio);
+    else setRatioText(formatRatio(value));
+  };
+
+  const handleSwap = () => {
+    const ratio = value === AspectRatios.ORIGINAL ? originalRatio : value;
+    if (ratio && ratio > 0) onChange(1 / ratio);
+  };
+
+  const handleSavePreset = () => {
+    if (value <= 0) return;
+    const preset: AspectPreset = {
+      id: nanoid(),
+      label: presetName.trim() || formatRatio(value),
+      width: value,
+      height: 1,
+    };
+    onSavedPresetsChange([...savedPresets, preset]);
+    setSelectedKey(`saved:${preset.id}`);
+    setPresetName("");
+  };
+
+  const movePreset = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= savedPresets.length) return;
+    const reordered = [...savedPresets];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onSavedPresetsChange(reordered);
+  };
+
+  const deletePreset = (id: string) => {
+    onSavedPresetsChange(savedPresets.filter((preset) => preset.id !== id));
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Select
+        value={selected?.key ?? CUSTOM_KEY}
+        onChange={(e) => handleSelect(e.target.value)}
+        isDisabled={isDisabled}
+      >
+        {basicOptions.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+        {platformGroups.map((group) => (
+          <optgroup key={group.label} label={group.label}>
+            {group.options.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+        {savedOptions.length > 0 && (
+          <optgroup label="My presets">
+            {savedOptions.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {!selected && (
+          <option value={CUSTOM_KEY}>Custom ({formatRatio(value)})</option>
+        )}
+      </Select>
+
+      <Flex gap={2} align="center">
+        <Input
+          size="sm"
+          w="100px"
+          placeholder="W:H"
+          aria-label="Custom aspect ratio"
+          value={ratioText}
+          isDisabled={isDisabled}
+          onChange={(e) => setRatioText(e.target.value)}
+          onBlur={applyRatioText}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") applyRatioText();
+          }}
+        />
+
+        <Tooltip label="Swap orientation">
+          <IconButton
+            aria-label="Swap orientation"
+            icon={<Box as="span">⇄</Box>}
+            size="sm"
+            variant="ghost"
+            onClick={handleSwap}
+            isDisabled={isDisabled || value === AspectRatios.FREE}
+          />
+        </Tooltip>
+
+        <Popover placement="bottom-end">
+          <PopoverTrigger>
+            <Button
+              size="sm"
+              variant="ghost"
+              isDisabled={isDisabled || value <= 0}
+            >
+              Save
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent w="240px">
+            <PopoverArrow />
+            <PopoverBody>
+              <Text fontSize="sm" mb={2}>
+                Save {formatRatio(value)} as a preset
+              </Text>
+              <Flex gap={2}>
+                <Input
+                  size="sm"
+                  placeholder="Preset name"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSavePreset();
+                  }}
+                />
+                <Button size="sm" colorScheme="blue" onClick={handleSavePreset}>
+                  Add
+                </Button>
+              </Flex>
+            </PopoverBody>
+          </PopoverContent>
+        </Popover>
+
+        <Popover placement="bottom-end">
+          <PopoverTrigger>
+            <Button
+              size="sm"
+              variant="ghost"
+              isDisabled={isDisabled || savedPresets.length === 0}
+            >
+              Manage
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent w="280px">
+            <PopoverArrow />
+            <PopoverBody>
+              <Stack spacing={1}>
+                {savedPresets.map((preset, index) => (
+                  <Flex key={preset.id} align="center" gap={1}>
+                    <Text fontSize="sm" flex="1" noOfLines={1}>
+                      {preset.label} ({formatRatio(getPresetRatio(preset))})
+                    </Text>
+                    <IconButton
+                      aria-label={`Move ${preset.label} up`}
+                      icon={<Box as="span">↑</Box>}
+                      size="xs"
+                      variant="ghost"
+                      isDisabled={index === 0}
+                      onClick={() => movePreset(index, -1)}
+                    />
+                    <IconButton
+                      aria-label={`Move ${preset.label} down`}
+                      icon={<Box as="span">↓</Box>}
+                      size="xs"
+                      variant="ghost"
+                      isDisabled={index === savedPresets.length - 1}
+                      onClick={() => movePreset(index, 1)}
+                    />
+                    <IconButton
+                      aria-label={`Delete ${preset.label}`}
+                      icon={<Box as="span">🗑️</Box>}
+                      size="xs"
+                      variant="ghost"
+                      onClick={() => deletePreset(preset.id)}
+                    />
+                  </Flex>
+                ))}
+              </Stack>
+            </PopoverBody>
+          </PopoverContent>
+        </Popover>
+      </Flex>
+    </Stack>
+  );
+};
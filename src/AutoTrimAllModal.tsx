@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Progress,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Tr,
+} from "@chakra-ui/react";
+import { Area, DEFAULT_TRANSFORM, ImageData, ImageTransform } from "./types";
+import { getImageDimensions } from "./imageUtils";
+import {
+  describeTrim,
+  detectTransformedTrim,
+  TrimOptions,
+  TrimResult,
+} from "./autoTrim";
+import { AutoTrimOptions } from "./AutoTrimOptions";
+
+export interface TrimUpdate {
+  imageId: string;
+  // In the coordinates of the image rotated by `transform`
+  area: Area;
+  transform: ImageTransform;
+}
+
+interface AutoTrimAllModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: ImageData[];
+  options: TrimOptions;
+  onOptionsChange: (value: TrimOptions) => void;
+  onApply: (updates: TrimUpdate[]) => void;
+}
+
+type DetectionState = TrimResult | null | "error";
+
+// Trims keep the rotation and flips of the image's last crop
+const getSavedTransform = ({ lastCrop }: ImageData): ImageTransform =>
+  lastCrop
+    ? {
+        rotation: lastCrop.rotation,
+        flipHorizontal: lastCrop.flipHorizontal,
+        flipVertical: lastCrop.flipVertical,
+      }
+    : DEFAULT_TRANSFORM;
+
+export const AutoTrimAllModal = ({
+  isOpen,
+  onClose,
+  images,
+  options,
+  onOptionsChange,
+  onApply,
+}: AutoTrimAllModalProps) => {
+  const [results, setResults] = useState<Record<string, DetectionState>>({});
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  // Results are only valid for the options they were found with
+  useEffect(() => {
+    if (isOpen) setResults({});
+  }, [isOpen, options]);
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    setResults({});
+    for (const image of images) {
+      let result: DetectionState;
+      try {
+        const size = await getImageDimensions(image.url);
+        result = await detectTransformedTrim(
+          image.url,
+          size,
+          options,
+          getSavedTransform(image)
+        );
+      } catch {
+        result = "error";
+      }
+      setResults((prev) => ({ ...prev, [image.id]: result }));
+    }
+    setIsDetecting(false);
+  };
+
+  const updates: TrimUpdate[] = images.flatMap((image) => {
+    const result = results[image.id];
+    return result && result !== "error"
+      ? [
+          {
+            imageId: image.id,
+            area: result.area,
+            transform: getSavedTransform(image),
+          },
+        ]
+      : [];
+  });
+  const detectedCount = Object.keys(results).length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Auto-trim All Images</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <Stack spacing={4}>
+            <AutoTrimOptions
+              value={options}
+              onChange={onOptionsChange}
+              isDisabled={isDetecting}
+            />
+            {isDetecting && (
+              <Progress
+                size="sm"
+                value={(detectedCount / Math.max(1, images.length)) * 100}
+              />
+            )}
+            {detectedCount > 0 && (
+              <Table size="sm">
+                <Tbody>
+                  {images
+                    .filter((image) => image.id in results)
+                    .map((image) => {
+                      const result = results[image.id];
+                      return (
+                        <Tr key={image.id}>
+                          <Td maxW="200px">
+                            <Text noOfLines={1} title={image.name}>
+                              {image.name}
+                            </Text>
+                          </Td>
+                          <Td
+                            color={result === "error" ? "red.400" : undefined}
+                          >
+                            {result === "error"
+                              ? "Could not read image"
+                              : describeTrim(result)}
+                          </Td>
+                        </Tr>
+                      );
+                    })}
+                </Tbody>
+              </Table>
+            )}
+            <Text fontSize="sm" color="gray.500">
+              Applying sets the crop of each image; nothing is downloaded until
+              you crop it.
+            </Text>
+          </Stack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button mr={3} onClick={handleDetect} isLoading={isDetecting}>
+            Detect borders
+          </Button>
+          <Button
+            colorScheme="blue"
+            isDisabled={isDetecting || updates.length === 0}
+            onClick={() => {
+              onApply(updates);
+              onClose();
+            }}
+          >
+            Apply to {updates.length} image{updates.length === 1 ? "" : "s"}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,74 @@
+import React from "react";
+import {
+  Flex,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import { TrimOptions } from "./autoTrim";
+
+interface AutoTrimOptionsProps {
+  value: TrimOptions;
+  onChange: (value: TrimOptions) => void;
+  isDisabled?: boolean;
+}
+
+export const AutoTrimOptions = ({
+  value,
+  onChange,
+  isDisabled,
+}: AutoTrimOptionsProps) => (
+  <Stack spacing={3}>
+    <Flex justify="space-between" align="center">
+      <Text fontSize="sm">Tolerance</Text>
+      <Flex w="70%" align="center">
+        <Slider
+          aria-label="Trim tolerance"
+          value={value.tolerance}
+          min={0}
+          max={100}
+          step={1}
+          isDisabled={isDisabled}
+          onChange={(tolerance) => onChange({ ...value, tolerance })}
+          flex="1"
+        >
+          <SliderTrack>
+            <SliderFilledTrack />
+          </SliderTrack>
+          <SliderThumb />
+        </Slider>
+        <Text ml={3} fontSize="sm" w="4ch" textAlign="right">
+          {value.tolerance}%
+        </Text>
+      </Flex>
+    </Flex>
+    <Flex justify="space-between" align="center">
+      <Text fontSize="sm">Padding (px)</Text>
+      <NumberInput
+        w="70%"
+        size="sm"
+        min={0}
+        max={1000}
+        value={value.padding}
+        isDisabled={isDisabled}
+        onChange={(_, padding) =>
+          onChange({ ...value, padding: Number.isNaN(padding) ? 0 : padding })
+        }
+      >
+        <NumberInputField aria-label="Trim padding" />
+        <NumberInputStepper>
+          <NumberIncrementStepper />
+          <NumberDecrementStepper />
+        </NumberInputStepper>
+      </NumberInput>
+    </Flex>
+  </Stack>
+);
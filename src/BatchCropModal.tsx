@@ -0,0 +1,552 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import {
+  Box,
+  Button,
+  Flex,
+  Grid,
+  Image,
+  Text,
+  Badge,
+  Stack,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  FormControl,
+  FormLabel,
+  Select,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  Progress,
+  Divider,
+  useToast,
+} from "@chakra-ui/react";
+import Cropper from "react-easy-crop";
+import JSZip from "jszip";
+import {
+  Area,
+  AspectRatios,
+  CropResult,
+  CropSettings,
+  DEFAULT_TRANSFORM,
+  Dimensions,
+  ImageData,
+  Point,
+} from "./types";
+import { ExportQueue, queueCrop } from "./exportQueue";
+import { isCancelled } from "./exportWorker";
+import {
+  createThumbnail,
+  downloadBlob,
+  getImageDimensions,
+} from "./imageUtils";
+import {
+  Anchor,
+  Anchors,
+  BatchCropSettings,
+  BatchItem,
+  computeAnchoredArea,
+  getOutputSize,
+} from "./batchCrop";
+import { ExportOptions } from "./ExportOptions";
+import { AspectRatioPicker } from "./AspectRatioPicker";
+import { AspectPreset } from "./aspectPresets";
+import { suggestCrops } from "./smartCrop";
+import { ExportSettings, toEncodeOptions } from "./exportSettings";
+import { makeUniqueName, renderFileName } from "./fileNameTemplate";
+import { FileNameTemplateInput } from "./FileNameTemplateInput";
+
+interface BatchCropModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: ImageData[];
+  onComplete: (results: CropResult[]) => void;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (value: ExportSettings) => void;
+  fileNameTemplate: string;
+  onFileNameTemplateChange: (value: string) => void;
+  aspectPresets: AspectPreset[];
+  onAspectPresetsChange: (presets: AspectPreset[]) => void;
+  // Crops are rendered through the app's export queue
+  exportQueue: ExportQueue;
+}
+
+const statusColors = {
+  pending: "gray",
+  processing: "blue",
+  done: "green",
+  error: "red",
+} as const;
+
+export const BatchCropModal = ({
+  isOpen,
+  onClose,
+  images,
+  onComplete,
+  exportSettings,
+  onExportSettingsChange,
+  fileNameTemplate,
+  onFileNameTemplateChange,
+  aspectPresets,
+  onAspectPresetsChange,
+  exportQueue,
+}: BatchCropModalProps) => {
+  const [settings, setSettings] = useState<BatchCropSettings>({
+    aspectRatio: 1,
+    anchor: "center",
+    outputWidth: 0,
+  });
+  // Natural size of every image; null when it could not be read
+  const [dimensions, setDimensions] = useState<
+    Record<string, Dimensions | null>
+  >({});
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const [adjustCrop, setAdjustCrop] = useState<Point>({ x: 0, y: 0 });
+  const [adjustZoom, setAdjustZoom] = useState(1);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Smart placements already found, keyed by image id and ratio
+  const smartAreasRef = useRef(new Map<string, Area>());
+  // Images whose size has been asked for, so each is read only once
+  const requestedRef = useRef(new Set<string>());
+  const toast = useToast();
+
+  // Load natural dimensions for every selected image
+  useEffect(() => {
+    if (!isOpen) return;
+    images
+      .filter((image) => !requestedRef.current.has(image.id))
+      .forEach((image) => {
+        requestedRef.current.add(image.id);
+        // Recorded with the grid preview; only older images need decoding
+        if (image.dimensions) {
+          const size = image.dimensions;
+          setDimensions((prev) => ({ ...prev, [image.id]: size }));
+          return;
+        }
+        getImageDimensions(image.url).then(
+          (size) => setDimensions((prev) => ({ ...prev, [image.id]: size })),
+          () => setDimensions((prev) => ({ ...prev, [image.id]: null }))
+        );
+      });
+  }, [isOpen, images]);
+
+  // Recompute the crop of every image the user has not adjusted by hand
+  useEffect(() => {
+    setItems((prev) =>
+      images.map((image) => {
+        const existing = prev.find((item) => item.imageId === image.id);
+        const size = dimensions[image.id];
+        if (existing?.adjusted) return existing;
+        const smartArea =
+          settings.anchor === "smart"
+            ? smartAreasRef.current.get(`${image.id}:${settings.aspectRatio}`)
+            : undefined;
+        return {
+          imageId: image.id,
+          area: size
+            ? smartArea ??
+              computeAnchoredArea(size, settings.aspectRatio, settings.anchor)
+            : null,
+          adjusted: false,
+          // Images that cannot be read are left out of the batch
+          status:
+            size === null || existing?.status === "error" ? "error" : "pending",
+          error: size === null ? "Could not read image" : existing?.error,
+        };
+      })
+    );
+  }, [images, dimensions, settings.aspectRatio, settings.anchor]);
+
+  // Smart placement: analyse each image in turn and move its crop onto the
+  // best suggestion, unless the user has adjusted it meanwhile
+  useEffect(() => {
+    if (!isOpen || settings.anchor !== "smart") return;
+    let cancelled = false;
+
+    const analyse = async () => {
+      for (const image of images) {
+        const size = dimensions[image.id];
+        const key = `${image.id}:${settings.aspectRatio}`;
+        if (cancelled) return;
+        if (!size || smartAreasRef.current.has(key)) continue;
+        const ratio =
+          settings.aspectRatio === AspectRatios.ORIGINAL
+            ? 0
+            : settings.aspectRatio;
+        const [best] = await suggestCrops(image.url, size, ratio, {
+          count: 1,
+        }).catch(() => []);
+        if (!best) continue;
+        smartAreasRef.current.set(key, best);
+        if (cancelled) return;
+        setItems((prev) =>
+          prev.map((item) =>
+            item.imageId === image.id && !item.adjusted
+              ? { ...item, area: best }
+              : item
+          )
+        );
+      }
+    };
+    analyse();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, images, dimensions, settings.aspectRatio, settings.anchor]);
+
+  const updateItem = (imageId: string, changes: Partial<BatchItem>) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.imageId === imageId ? { ...item, ...changes } : item
+      )
+    );
+  };
+
+  const handleAspectRatioChange = (aspectRatio: number) => {
+    // Manual adjustments were made for the previous ratio, so drop them
+    setItems((prev) => prev.map((item) => ({ ...item, adjusted: false })));
+    setSettings((prev) => ({ ...prev, aspectRatio }));
+  };
+
+  const handleAdjust = (imageId: string) => {
+    setAdjustCrop({ x: 0, y: 0 });
+    setAdjustZoom(1);
+    setAdjustingId(imageId);
+  };
+
+  const handleAdjustComplete = useCallback(
+    (_: Area, croppedAreaPixels: Area) => {
+      if (!adjustingId) return;
+      updateItem(adjustingId, {
+        area: croppedAreaPixels,
+        adjusted: true,
+        status: "pending",
+      });
+    },
+    [adjustingId]
+  );
+
+  const handleRun = async () => {
+    setIsProcessing(true);
+    setAdjustingId(null);
+
+    const zip = new JSZip();
+    const takenNames = new Set<string>();
+    const results: CropResult[] = [];
+    const date = new Date();
+
+    // Queue every crop up front so waiting ones can be cancelled
+    const jobs = images.map((image) => {
+      const item = items.find((entry) => entry.imageId === image.id);
+      if (!item?.area) return null;
+
+      const cropSettings: CropSettings = {
+        area: item.area,
+        aspectRatio: settings.aspectRatio,
+        zoom: 1,
+        transform: DEFAULT_TRANSFORM,
+        output: getOutputSize(item.area, settings.outputWidth),
+        exportSettings,
+      };
+      const job = queueCrop(exportQueue, image.name, image, item.area, {
+        output: cropSettings.output,
+        encoding: toEncodeOptions(exportSettings, image.exif),
+      });
+      job.catch(() => undefined);
+      return { image, area: item.area, cropSettings, job };
+    });
+
+    for (const entry of jobs) {
+      if (!entry) continue;
+      const { image, area, cropSettings, job } = entry;
+
+      updateItem(image.id, { status: "processing", error: undefined });
+      try {
+        const blob = await job;
+        const fileName = renderFileName(
+          fileNameTemplate,
+          {
+            sourceName: image.name,
+            folder: image.folder,
+            ...(cropSettings.output ?? area),
+            index: images.indexOf(image) + 1,
+            date,
+          },
+          exportSettings.format
+        );
+        zip.file(makeUniqueName(fileName, takenNames), blob);
+        results.push({
+          imageId: image.id,
+          settings: cropSettings,
+          thumbnail: await createThumbnail(blob).catch(() => undefined),
+        });
+        updateItem(image.id, { status: "done" });
+      } catch (error) {
+        updateItem(image.id, {
+          status: "error",
+          error: isCancelled(error)
+            ? "Cancelled"
+            : error instanceof Error
+            ? error.message
+            : "Crop failed",
+        });
+      }
+    }
+
+    try {
+      if (results.length > 0) {
+        const archive = await zip.generateAsync({ type: "blob" });
+        downloadBlob(archive, "cropped-images.zip");
+        onComplete(results);
+      }
+
+      const failed = images.length - results.length;
+      toast({
+        title:
+          failed === 0
+            ? `Cropped ${results.length} images`
+            : `Cropped ${results.length} of ${images.length} images`,
+        description:
+          failed > 0 ? `${failed} could not be processed` : undefined,
+        status: failed === 0 ? "success" : "warning",
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      toast({
+        title: "ZIP file could not be created",
+        description: error instanceof Error ? error.message : undefined,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isProcessing) return;
+    setAdjustingId(null);
+    setItems((prev) =>
+      prev.map((item) =>
+        dimensions[item.imageId] === null
+          ? item
+          : { ...item, status: "pending", error: undefined }
+      )
+    );
+    onClose();
+  };
+
+  const doneCount = items.filter(
+    (item) => item.status === "done" || item.status === "error"
+  ).length;
+  const adjustingImage = images.find((image) => image.id === adjustingId);
+  const adjustingItem = items.find((item) => item.imageId === adjustingId);
+  const adjustingSize = adjustingId ? dimensions[adjustingId] : undefined;
+  // Ready once every size is known; unreadable images are skipped
+  const isReady =
+    items.some((item) => item.area) &&
+    items.every((item) => item.area || dimensions[item.imageId] === null);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="3xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Batch Crop ({images.length} images)</ModalHeader>
+        <ModalCloseButton isDisabled={isProcessing} />
+
+        <ModalBody>
+          <Stack spacing={4}>
+            <Grid templateColumns="repeat(3, 1fr)" gap={4}>
+              <FormControl>
+                <FormLabel fontSize="sm">Aspect Ratio</FormLabel>
+                <AspectRatioPicker
+                  value={settings.aspectRatio}
+                  onChange={handleAspectRatioChange}
+                  savedPresets={aspectPresets}
+                  onSavedPresetsChange={onAspectPresetsChange}
+                  isDisabled={isProcessing}
+                />
+              </FormControl>
+
+              <FormControl>
+                <FormLabel fontSize="sm">Placement</FormLabel>
+                <Select
+                  value={settings.anchor}
+                  onChange={(e) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      anchor: e.target.value as Anchor,
+                    }))
+                  }
+                  isDisabled={isProcessing}
+                >
+                  {Anchors.map((anchor) => (
+                    <option key={anchor} value={anchor}>
+                      {anchor}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl>
+                <FormLabel fontSize="sm">Output Width (0 = original)</FormLabel>
+                <NumberInput
+                  min={0}
+                  max={10000}
+                  value={settings.outputWidth}
+                  onChange={(_, value) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      outputWidth: Number.isNaN(value) ? 0 : value,
+                    }))
+                  }
+                  isDisabled={isProcessing}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+            </Grid>
+
+            <ExportOptions
+              value={exportSettings}
+              onChange={onExportSettingsChange}
+              isDisabled={isProcessing}
+            />
+            {images.length > 0 && (
+              <FileNameTemplateInput
+                value={fileNameTemplate}
+                onChange={onFileNameTemplateChange}
+                format={exportSettings.format}
+                preview={{
+                  sourceName: images[0].name,
+                  folder: images[0].folder,
+                  ...(dimensions[images[0].id] ?? { width: 0, height: 0 }),
+                  index: 1,
+                  date: new Date(),
+                }}
+                isDisabled={isProcessing}
+              />
+            )}
+
+            {adjustingImage && adjustingItem?.area && adjustingSize && (
+              <Box>
+                <Box position="relative" height="300px" mb={2}>
+                  <Cropper
+                    key={adjustingImage.id}
+                    image={adjustingImage.url}
+                    crop={adjustCrop}
+                    zoom={adjustZoom}
+                    aspect={
+                      settings.aspectRatio > 0
+                        ? settings.aspectRatio
+                        : adjustingSize.width / adjustingSize.height
+                    }
+                    initialCroppedAreaPixels={adjustingItem.area}
+                    onCropChange={setAdjustCrop}
+                    onZoomChange={setAdjustZoom}
+                    onCropComplete={handleAdjustComplete}
+                    showGrid
+                  />
+                </Box>
+                <Flex justify="space-between" align="center">
+                  <Text fontSize="sm" color="gray.500">
+                    Adjusting {adjustingImage.name}
+                  </Text>
+                  <Button size="sm" onClick={() => setAdjustingId(null)}>
+                    Done
+                  </Button>
+                </Flex>
+              </Box>
+            )}
+
+            <Divider />
+
+            {isProcessing && (
+              <Progress
+                value={(doneCount / Math.max(items.length, 1)) * 100}
+                size="sm"
+                borderRadius="full"
+              />
+            )}
+
+            <Stack spacing={2} maxH="300px" overflowY="auto">
+              {images.map((image) => {
+                const item = items.find((entry) => entry.imageId === image.id);
+                return (
+                  <Flex key={image.id} align="center" gap={3}>
+                    <Image
+                      src={image.thumbnailUrl ?? image.url}
+                      alt={image.name}
+                      boxSize="40px"
+                      objectFit="cover"
+                      borderRadius="sm"
+                    />
+                    <Box flex="1" minW={0}>
+                      <Text fontSize="sm" noOfLines={1} title={image.name}>
+                        {image.name}
+                      </Text>
+                      <Text fontSize="xs" color="gray.500">
+                        {item?.area
+                          ? `${item.area.width} x ${item.area.height} at ${item.area.x}, ${item.area.y}`
+                          : !item?.error && "Reading dimensions..."}
+                        {item?.adjusted && " (adjusted)"}
+                        {item?.error &&
+                          (item.area ? ` - ${item.error}` : item.error)}
+                      </Text>
+                    </Box>
+                    <Badge
+                      colorScheme={statusColors[item?.status ?? "pending"]}
+                    >
+                      {item?.status ?? "pending"}
+                    </Badge>
+                    <Button
+                      size="xs"
+                      variant="ghost"
+                      onClick={() => handleAdjust(image.id)}
+                      isDisabled={isProcessing || !item?.area}
+                    >
+                      Adjust
+                    </Button>
+                  </Flex>
+                );
+              })}
+            </Stack>
+          </Stack>
+        </ModalBody>
+
+        <ModalFooter>
+          <Button
+            variant="ghost"
+            mr={3}
+            onClick={handleClose}
+            isDisabled={isProcessing}
+          >
+            Cancel
+          </Button>
+          <Button
+            colorScheme="blue"
+            onClick={handleRun}
+            isLoading={isProcessing}
+            isDisabled={!isReady}
+          >
+            Crop All & Download ZIP
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,60 @@
+import React from "react";
+import {
+  Button,
+  Menu,
+  MenuButton,
+  MenuDivider,
+  MenuItemOption,
+  MenuList,
+  MenuOptionGroup,
+} from "@chakra-ui/react";
+import { CropGuide, CropGuideOptions } from "./compositionGuides";
+
+interface CropGuidesMenuProps {
+  guides: CropGuide[];
+  onChange: (guides: CropGuide[]) => void;
+}
+
+const GROUPS = [
+  { value: "composition", title: "Composition" },
+  { value: "safeZone", title: "Safe zones" },
+] as const;
+
+export const CropGuidesMenu = ({ guides, onChange }: CropGuidesMenuProps) => (
+  <Menu closeOnSelect={false}>
+    <MenuButton as={Button} size="sm" variant="ghost">
+      # Guides{guides.length > 0 ? ` (${guides.length})` : ""}
+    </MenuButton>
+    <MenuList>
+      {GROUPS.map((group, index) => {
+        const options = CropGuideOptions.filter(
+          (option) => option.group === group.value
+        );
+        const isInGroup = (guide: CropGuide) =>
+          options.some((option) => option.value === guide);
+        return (
+          <React.Fragment key={group.value}>
+            {index > 0 && <MenuDivider />}
+            <MenuOptionGroup
+              type="checkbox"
+              title={group.title}
+              value={guides.filter(isInGroup)}
+              onChange={(value) =>
+                onChange([
+                  ...guides.filter((guide) => !isInGroup(guide)),
+                  ...(value as CropGuide[]),
+                ])
+              }
+            >
+              {options.map((option) => (
+                <MenuItemOption key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItemOption>
+              ))}
+            </MenuOptionGroup>
+          </React.Fragment>
+        );
+      })}
+    </MenuList>
+  </Menu>
+);
@@ -0,0 +1,95 @@
+import React from "react";
+import { Box } from "@chakra-ui/react";
+import { Dimensions } from "./types";
+import { CropGuide, getGuideShapes, GuideShape } from "./compositionGuides";
+
+interface CropGuidesOverlayProps {
+  guides: CropGuide[];
+  // Crop box size on screen
+  size: Dimensions;
+  bleed: { x: number; y: number };
+}
+
+const STROKE = "rgba(255, 255, 255, 0.7)";
+
+const renderShape = (shape: GuideShape, key: number) => {
+  switch (shape.type) {
+    case "line":
+      return (
+        <line
+          key={key}
+          x1={shape.x1}
+          y1={shape.y1}
+          x2={shape.x2}
+          y2={shape.y2}
+          stroke={STROKE}
+        />
+      );
+    case "circle":
+      return (
+        <circle
+          key={key}
+          cx={shape.cx}
+          cy={shape.cy}
+          r={shape.r}
+          fill="none"
+          stroke={STROKE}
+        />
+      );
+    case "path":
+      return <path key={key} d={shape.d} fill="none" stroke={STROKE} />;
+    case "zone":
+      return (
+        <rect
+          key={key}
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.height}
+          fill="rgba(0, 0, 0, 0.35)"
+          stroke="rgba(255, 214, 10, 0.9)"
+          strokeDasharray="4 3"
+        />
+      );
+    case "rect":
+      return (
+        <rect
+          key={key}
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.height}
+          fill="none"
+          stroke={shape.dashed ? STROKE : "rgba(255, 64, 64, 0.9)"}
+          strokeDasharray={shape.dashed ? "4 3" : undefined}
+        />
+      );
+  }
+};
+
+// Composition guides and safe zones drawn over the crop box, which the
+// cropper keeps centered. Screen only: exports never see them.
+export const CropGuidesOverlay = ({
+  guides,
+  size,
+  bleed,
+}: CropGuidesOverlayProps) => (
+  <Box
+    as="svg"
+    position="absolute"
+    left="50%"
+    top="50%"
+    transform="translate(-50%, -50%)"
+    width={`${size.width}px`}
+    height={`${size.height}px`}
+    viewBox={`0 0 ${size.width} ${size.height}`}
+    overflow="visible"
+    pointerEvents="none"
+    zIndex={1}
+    aria-hidden
+  >
+    {guides
+      .flatMap((guide) => getGuideShapes(guide, size, bleed))
+      .map((shape, index) => renderShape(shape, index))}
+  </Box>
+);
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from "react";
+import {
+  Box,
+  Button,
+  Center,
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  Flex,
+  Image,
+  Stack,
+  Text,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import { CropInfo, ImageData } from "./types";
+import { AspectPreset, getAspectRatioLabel } from "./aspectPresets";
+import { getFormatInfo } from "./exportSettings";
+
+interface CropHistoryDrawerProps {
+  image: ImageData | null;
+  aspectPresets: AspectPreset[];
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (entry: CropInfo) => void;
+  onDownload: (entry: CropInfo) => void;
+  // Omitted when the browser cannot copy images
+  onCopy?: (entry: CropInfo) => void;
+  onDelete: (entryId: string) => void;
+}
+
+const describeEntry = (entry: CropInfo, aspectPresets: AspectPreset[]) => {
+  const { area, transform, output, dpi, exportSettings } = entry;
+  const formatInfo = getFormatInfo(exportSettings.format);
+  const flips = [
+    transform.flipHorizontal && "horizontal",
+    transform.flipVertical && "vertical",
+  ].filter(Boolean);
+
+  return [
+    ...(entry.regionName ? [`Region: ${entry.regionName}`] : []),
+    `Area: ${Math.round(area.width)} x ${Math.round(
+      area.height
+    )} at ${Math.round(area.x)}, ${Math.round(area.y)}`,
+    `Aspect ratio: ${getAspectRatioLabel(entry.aspectRatio, aspectPresets)}`,
+    `Zoom: ${entry.zoom.toFixed(1)}x`,
+    `Rotation: ${Math.round(transform.rotation)}°${
+      flips.length > 0 ? `, flipped ${flips.join(" and ")}` : ""
+    }`,
+    `Output: ${output ? `${output.width} x ${output.height}` : "source size"}${
+      dpi ? ` at ${dpi} DPI` : ""
+    }, ${formatInfo.label}${
+      formatInfo.lossy ? ` ${exportSettings.quality}%` : ""
+    }`,
+  ];
+};
+
+export const CropHistoryDrawer = ({
+  image,
+  aspectPresets,
+  isOpen,
+  onClose,
+  onRestore,
+  onDownload,
+  onCopy,
+  onDelete,
+}: CropHistoryDrawerProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selectedBg = useColorModeValue("blue.50", "whiteAlpha.200");
+  const previewBg = useColorModeValue("gray.100", "whiteAlpha.100");
+  const entries = image ? [...image.cropHistory].reverse() : [];
+  const selected =
+    entries.find((entry) => entry.id === selectedId) ?? entries[0];
+
+  // Start with the newest entry whenever a different image is shown
+  useEffect(() => {
+    setSelectedId(null);
+  }, [image?.id]);
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} placement="right" size="sm">
+      <DrawerOverlay />
+      <DrawerContent>
+        <DrawerCloseButton />
+        <DrawerHeader>
+          Crop History
+          {image && (
+            <Text fontSize="sm" fontWeight="normal" color="gray.500">
+              {image.name}
+            </Text>
+          )}
+        </DrawerHeader>
+
+        <DrawerBody>
+          {!selected ? (
+            <Center h="200px">
+              <Text color="gray.500">No crop history</Text>
+            </Center>
+          ) : (
+            <Stack spacing={4}>
+              <Box>
+                <Center
+                  h="200px"
+                  bg={previewBg}
+                  borderRadius="md"
+                  overflow="hidden"
+                  mb={3}
+                >
+                  {selected.thumbnail ? (
+                    <Image
+                      src={selected.thumbnail}
+                      alt={`Crop ${selected.dimensions}`}
+                      maxH="100%"
+                      objectFit="contain"
+                    />
+                  ) : (
+                    <Text fontSize="sm" color="gray.500">
+                      No preview
+                    </Text>
+                  )}
+                </Center>
+
+                <Text fontSize="sm" fontWeight="bold">
+                  {selected.timestamp.toLocaleString()}
+                </Text>
+                {describeEntry(selected, aspectPresets).map((line) => (
+                  <Text key={line} fontSize="sm" color="gray.500">
+                    {line}
+                  </Text>
+                ))}
+
+                <Flex gap={2} mt={3}>
+                  <Button
+                    size="sm"
+                    colorScheme="blue"
+                    onClick={() => onRestore(selected)}
+                  >
+                    Restore
+                  </Button>
+                  <Button size="sm" onClick={() => onDownload(selected)}>
+                    Download
+                  </Button>
+                  {onCopy && (
+                    <Button size="sm" onClick={() => onCopy(selected)}>
+                      Copy
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    colorScheme="red"
+                    onClick={() => onDelete(selected.id)}
+                  >
+                    Delete
+                  </Button>
+                </Flex>
+              </Box>
+
+              <Stack spacing={1}>
+                {entries.map((entry) => (
+                  <Flex
+                    key={entry.id}
+                    as="button"
+                    align="center"
+                    gap={3}
+                    p={2}
+                    borderRadius="md"
+                    textAlign="left"
+                    bg={entry.id === selected.id ? selectedBg : undefined}
+                    onClick={() => setSelectedId(entry.id)}
+                  >
+                    <Image
+                      src={entry.thumbnail}
+                      alt=""
+                      boxSize="40px"
+                      objectFit="cover"
+                      borderRadius="sm"
+                      fallback={<Box boxSize="40px" bg="gray.200" />}
+                    />
+                    <Box>
+                      <Text fontSize="sm">{entry.dimensions}</Text>
+                      <Text fontSize="xs" color="gray.500">
+                        {entry.timestamp.toLocaleTimeString()}
+                      </Text>
+                    </Box>
+                  </Flex>
+                ))}
+              </Stack>
+            </Stack>
+          )}
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
@@ -0,0 +1,123 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Input,
+  Stack,
+  Text,
+  Tooltip,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import { CropRegion } from "./types";
+import { AspectPreset, getAspectRatioLabel } from "./aspectPresets";
+
+interface CropRegionListProps {
+  regions: CropRegion[];
+  // Region being edited in the cropper, if any
+  activeId: string | null;
+  aspectPresets: AspectPreset[];
+  onAdd: () => void;
+  onSelect: (region: CropRegion) => void;
+  onUpdate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  isExporting?: boolean;
+}
+
+export const CropRegionList = ({
+  regions,
+  activeId,
+  aspectPresets,
+  onAdd,
+  onSelect,
+  onUpdate,
+  onRename,
+  onDelete,
+  onExport,
+  isExporting,
+}: CropRegionListProps) => {
+  const activeBg = useColorModeValue("blue.50", "whiteAlpha.200");
+
+  return (
+    <Stack spacing={3}>
+      <Flex justify="space-between" align="center">
+        <Text fontWeight="bold">Regions</Text>
+        <Flex gap={2}>
+          {activeId && (
+            <Tooltip label="Save the current crop and settings to the selected region">
+              <Button size="sm" variant="ghost" onClick={onUpdate}>
+                Update region
+              </Button>
+            </Tooltip>
+          )}
+          <Button size="sm" onClick={onAdd}>
+            Add region
+          </Button>
+        </Flex>
+      </Flex>
+
+      {regions.length === 0 ? (
+        <Text fontSize="sm" color="gray.500">
+          Save the current crop as a named region to export several crops of
+          this image at once.
+        </Text>
+      ) : (
+        <>
+          {regions.map((region) => (
+            <Flex
+              key={region.id}
+              align="center"
+              gap={2}
+              p={1}
+              borderRadius="md"
+              bg={region.id === activeId ? activeBg : undefined}
+            >
+              <Input
+                size="sm"
+                variant="flushed"
+                flex="1"
+                aria-label="Region name"
+                value={region.name}
+                onChange={(e) => onRename(region.id, e.target.value)}
+              />
+              <Box fontSize="xs" color="gray.500" whiteSpace="nowrap">
+                {Math.round(region.area.width)} x{" "}
+                {Math.round(region.area.height)} ·{" "}
+                {getAspectRatioLabel(region.aspectRatio, aspectPresets)}
+              </Box>
+              <Button
+                size="xs"
+                variant="ghost"
+                isDisabled={region.id === activeId}
+                onClick={() => onSelect(region)}
+              >
+                {region.id === activeId ? "Editing" : "Edit"}
+              </Button>
+              <Tooltip label="Delete region">
+                <IconButton
+                  aria-label={`Delete ${region.name}`}
+                  icon={<Box as="span">🗑️</Box>}
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => onDelete(region.id)}
+                />
+              </Tooltip>
+            </Flex>
+          ))}
+          <Button
+            size="sm"
+            colorScheme="blue"
+            variant="outline"
+            onClick={onExport}
+            isLoading={isExporting}
+          >
+            Export {regions.length} region{regions.length === 1 ? "" : "s"}
+          </Button>
+        </>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import { Box, Image, Text } from "@chakra-ui/react";
+import {
+  Area,
+  canvasToBlob,
+  CropPadding,
+  ImageTransform,
+  renderCrop,
+} from "./cropEngine";
+import { ImageAdjustments } from "./imageAdjustments";
+
+interface CropResultPreviewProps {
+  // The loaded, upright source image
+  image: HTMLImageElement | null;
+  area: Area;
+  transform: ImageTransform;
+  padding?: CropPadding;
+  adjustments?: ImageAdjustments;
+}
+
+// Longest side of the preview in pixels
+const PREVIEW_SIZE = 320;
+// Wait for the crop to settle before rendering
+const PREVIEW_DELAY = 150;
+
+// The crop rendered by the same engine that exports it, so padding and
+// adjustments show exactly as they will be saved
+export const CropResultPreview = ({
+  image,
+  area,
+  transform,
+  padding,
+  adjustments,
+}: CropResultPreviewProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const { x, y, width, height } = area;
+  const { rotation, flipHorizontal, flipVertical } = transform;
+  const paddingType = padding?.type;
+  const paddingColor = padding?.type === "color" ? padding.color : "";
+
+  // Revoke each preview once the next one replaces it
+  useEffect(
+    () => () => {
+      if (url) URL.revokeObjectURL(url);
+    },
+    [url]
+  );
+
+  useEffect(() => {
+    if (!image?.naturalWidth || width <= 0 || height <= 0) return;
+    let cancelled = false;
+
+    const timer = window.setTimeout(async () => {
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+      try {
+        const canvas = await renderCrop(
+          image,
+          { x, y, width, height },
+          {
+            output: { width: width * scale, height: height * scale },
+            transform: { rotation, flipHorizontal, flipVertical },
+            padding:
+              paddingType === "color"
+                ? { type: "color", color: paddingColor }
+                : paddingType && { type: paddingType },
+            adjustments,
+          }
+        );
+        const blob = await canvasToBlob(canvas);
+        if (cancelled) return;
+        setUrl(URL.createObjectURL(blob));
+      } catch {
+        if (!cancelled) setUrl(null);
+      }
+    }, PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [
+    image,
+    x,
+    y,
+    width,
+    height,
+    rotation,
+    flipHorizontal,
+    flipVertical,
+    paddingType,
+    paddingColor,
+    adjustments,
+  ]);
+
+  return (
+    <Box textAlign="center">
+      <Text fontSize="sm" color="gray.500" mb={1}>
+        Result preview
+      </Text>
+      {url && (
+        <Image
+          src={url}
+          alt="Padded crop preview"
+          maxH="160px"
+          mx="auto"
+          bg="repeating-conic-gradient(#ccc 0% 25%, #fff 0% 50%) 50% / 16px 16px"
+        />
+      )}
+    </Box>
+  );
+};
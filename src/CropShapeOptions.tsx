@@ -0,0 +1,129 @@
+import React, { useRef, useState } from "react";
+import {
+  Button,
+  Flex,
+  Select,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import {
+  CropShapeSettings,
+  CropShapeType,
+  CropShapeTypes,
+  isShapeFilled,
+  MASK_TYPES,
+} from "./cropShape";
+import { ExportFormat, getFormatInfo } from "./exportSettings";
+
+interface CropShapeOptionsProps {
+  value: CropShapeSettings;
+  onChange: (value: CropShapeSettings) => void;
+  // Export format, to warn when it cannot keep the cut-off corners clear
+  format: ExportFormat;
+}
+
+export const CropShapeOptions = ({
+  value,
+  onChange,
+  format,
+}: CropShapeOptionsProps) => {
+  const maskInputRef = useRef<HTMLInputElement>(null);
+  const [maskError, setMaskError] = useState<string | null>(null);
+  const update = (changes: Partial<CropShapeSettings>) =>
+    onChange({ ...value, ...changes });
+
+  const handleMaskChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!MASK_TYPES.includes(file.type)) {
+      setMaskError(`${file.name} is not a PNG or SVG image`);
+      return;
+    }
+    setMaskError(null);
+    update({ mask: file, maskName: file.name });
+  };
+
+  return (
+    <Stack spacing={3}>
+      <Flex justify="space-between" align="center">
+        <Text fontWeight="bold">Shape</Text>
+        <Select
+          w="70%"
+          value={value.type}
+          onChange={(e) => update({ type: e.target.value as CropShapeType })}
+        >
+          {CropShapeTypes.map((shape) => (
+            <option key={shape.value} value={shape.value}>
+              {shape.label}
+            </option>
+          ))}
+        </Select>
+      </Flex>
+
+      {value.type === "rounded" && (
+        <Flex justify="space-between" align="center">
+          <Text fontWeight="bold">Radius</Text>
+          <Flex w="70%" align="center">
+            <Slider
+              aria-label="Corner radius"
+              value={value.radius}
+              min={0}
+              max={50}
+              step={1}
+              onChange={(radius) => update({ radius })}
+              flex="1"
+            >
+              <SliderTrack>
+                <SliderFilledTrack />
+              </SliderTrack>
+              <SliderThumb />
+            </Slider>
+            <Text ml={3} fontSize="sm" w="4ch" textAlign="right">
+              {value.radius}%
+            </Text>
+          </Flex>
+        </Flex>
+      )}
+
+      {value.type === "mask" && (
+        <Flex justify="space-between" align="center">
+          <Text fontWeight="bold">Mask</Text>
+          <Flex w="70%" align="center" gap={2}>
+            <input
+              ref={maskInputRef}
+              type="file"
+              accept={MASK_TYPES.join(",")}
+              hidden
+              onChange={handleMaskChange}
+            />
+            <Button size="sm" onClick={() => maskInputRef.current?.click()}>
+              {value.mask ? "Replace" : "Choose PNG or SVG"}
+            </Button>
+            <Text fontSize="sm" color="gray.500" noOfLines={1}>
+              {value.mask ? value.maskName ?? "Custom mask" : "No mask chosen"}
+            </Text>
+          </Flex>
+        </Flex>
+      )}
+      {value.type === "mask" && (
+        <Text fontSize="xs" color={maskError ? "red.400" : "gray.500"}>
+          {maskError ??
+            "The mask is stretched over the crop; its opaque parts are kept"}
+        </Text>
+      )}
+
+      {isShapeFilled(value, format) && (
+        <Text fontSize="sm" color="orange.400">
+          {getFormatInfo(format).label} has no transparency, so the area outside
+          the shape is filled with the background color. Choose PNG, WebP or
+          AVIF for a transparent cut-out.
+        </Text>
+      )}
+    </Stack>
+  );
+};
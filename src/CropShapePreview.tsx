@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from "react";
+import { Box, Image } from "@chakra-ui/react";
+import { Dimensions } from "./types";
+import { CropShapeSettings } from "./cropShape";
+
+interface CropShapePreviewProps {
+  shape: CropShapeSettings;
+  // Crop box size on screen
+  size: Dimensions;
+}
+
+// Shows rounded corners and custom masks on the crop box, which
+// react-easy-crop can only draw as a rectangle or an ellipse
+export const CropShapePreview = ({ shape, size }: CropShapePreviewProps) => {
+  const [maskUrl, setMaskUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (shape.type !== "mask" || !shape.mask) return;
+    const url = URL.createObjectURL(shape.mask);
+    setMaskUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setMaskUrl(null);
+    };
+  }, [shape.type, shape.mask]);
+
+  const radius =
+    (Math.min(shape.radius, 50) / 100) * Math.min(size.width, size.height);
+
+  return (
+    <Box
+      position="absolute"
+      left="50%"
+      top="50%"
+      transform="translate(-50%, -50%)"
+      w={`${size.width}px`}
+      h={`${size.height}px`}
+      overflow="hidden"
+      pointerEvents="none"
+      zIndex={1}
+      aria-hidden
+    >
+      {shape.type === "rounded" && (
+        <Box
+          w="100%"
+          h="100%"
+          borderRadius={`${radius}px`}
+          boxShadow="0 0 0 9999px rgba(0, 0, 0, 0.5)"
+        />
+      )}
+      {shape.type === "mask" && maskUrl && (
+        <Image
+          src={maskUrl}
+          alt=""
+          w="100%"
+          h="100%"
+          objectFit="fill"
+          opacity={0.4}
+        />
+      )}
+    </Box>
+  );
+};
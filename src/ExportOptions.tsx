@@ -0,0 +1,133 @@
+import React, { useMemo } from "react";
+import {
+  Checkbox,
+  Flex,
+  Input,
+  Select,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import {
+  ExportFormat,
+  ExportSettings,
+  getFormatInfo,
+  getSupportedFormats,
+  MetadataTag,
+  MetadataTags,
+} from "./exportSettings";
+
+interface ExportOptionsProps {
+  value: ExportSettings;
+  onChange: (value: ExportSettings) => void;
+  isDisabled?: boolean;
+}
+
+export const ExportOptions = ({
+  value,
+  onChange,
+  isDisabled,
+}: ExportOptionsProps) => {
+  const formats = useMemo(getSupportedFormats, []);
+  const formatInfo = getFormatInfo(value.format);
+  const keepMetadata = value.keepMetadata ?? [];
+
+  const toggleMetadata = (tag: MetadataTag, keep: boolean) =>
+    onChange({
+      ...value,
+      keepMetadata: keep
+        ? [...keepMetadata, tag]
+        : keepMetadata.filter((kept) => kept !== tag),
+    });
+
+  return (
+    <Stack spacing={3}>
+      <Flex justify="space-between" align="center">
+        <Text fontWeight="bold">Format</Text>
+        <Select
+          w="70%"
+          value={value.format}
+          isDisabled={isDisabled}
+          onChange={(e) =>
+            onChange({ ...value, format: e.target.value as ExportFormat })
+          }
+        >
+          {formats.map((format) => (
+            <option key={format.mimeType} value={format.mimeType}>
+              {format.label}
+            </option>
+          ))}
+        </Select>
+      </Flex>
+
+      {formatInfo.lossy && (
+        <Flex justify="space-between" align="center">
+          <Text fontWeight="bold">Quality</Text>
+          <Flex w="70%" align="center">
+            <Slider
+              value={value.quality}
+              min={1}
+              max={100}
+              step={1}
+              isDisabled={isDisabled}
+              onChange={(quality) => onChange({ ...value, quality })}
+              flex="1"
+            >
+              <SliderTrack>
+                <SliderFilledTrack />
+              </SliderTrack>
+              <SliderThumb />
+            </Slider>
+            <Text ml={3} fontSize="sm" w="3ch" textAlign="right">
+              {value.quality}
+            </Text>
+          </Flex>
+        </Flex>
+      )}
+
+      {!formatInfo.alpha && (
+        <Flex justify="space-between" align="center">
+          <Text fontWeight="bold">Background</Text>
+          <Input
+            type="color"
+            w="70%"
+            p={1}
+            value={value.backgroundColor}
+            isDisabled={isDisabled}
+            onChange={(e) =>
+              onChange({ ...value, backgroundColor: e.target.value })
+            }
+          />
+        </Flex>
+      )}
+
+      {value.format === "image/jpeg" ? (
+        <Flex justify="space-between" align="flex-start">
+          <Text fontWeight="bold">Metadata</Text>
+          <Stack w="70%" spacing={1}>
+            {MetadataTags.map((tag) => (
+              <Checkbox
+                key={tag.value}
+                isChecked={keepMetadata.includes(tag.value)}
+                isDisabled={isDisabled}
+                onChange={(e) => toggleMetadata(tag.value, e.target.checked)}
+              >
+                Keep {tag.label.toLowerCase()}
+              </Checkbox>
+            ))}
+            <Text fontSize="xs" color="gray.500">
+              Camera details and location are always removed
+            </Text>
+          </Stack>
+        </Flex>
+      ) : (
+        <Text fontSize="xs" color="gray.500">
+          All metadata is removed from {formatInfo.label} exports
+        </Text>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useRef, useState } from "react";
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Input,
+  ListItem,
+  Popover,
+  PopoverArrow,
+  PopoverBody,
+  PopoverContent,
+  PopoverTrigger,
+  Select,
+  Stack,
+  Text,
+  UnorderedList,
+} from "@chakra-ui/react";
+import {
+  ExportProfile,
+  mergeProfiles,
+  parseProfiles,
+  serializeProfiles,
+} from "./exportProfiles";
+import { downloadBlob } from "./imageUtils";
+
+interface ExportProfilePickerProps {
+  profiles: ExportProfile[];
+  onProfilesChange: (profiles: ExportProfile[]) => void;
+  // Profile last applied in the cropper, if any
+  activeId: string | null;
+  onApply: (profile: ExportProfile | null) => void;
+  // Saves the cropper's current settings under a new name
+  onSaveCurrent: (name: string) => void;
+}
+
+const NONE_KEY = "none";
+
+export const ExportProfilePicker = ({
+  profiles,
+  onProfilesChange,
+  activeId,
+  onApply,
+  onSaveCurrent,
+}: ExportProfilePickerProps) => {
+  const [profileName, setProfileName] = useState("");
+  const [importSummary, setImportSummary] = useState<{
+    imported: number;
+    errors: string[];
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeProfile = profiles.find((profile) => profile.id === activeId);
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    onSaveCurrent(name);
+    setProfileName("");
+  };
+
+  const handleImport = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      setImportSummary({
+        imported: 0,
+        errors: [
+          `The file could not be read${
+            error instanceof Error ? `: ${error.message}` : ""
+          }`,
+        ],
+      });
+      return;
+    }
+    const { profiles: imported, errors } = parseProfiles(text);
+    if (imported.length > 0) {
+      onProfilesChange(mergeProfiles(profiles, imported));
+    }
+    setImportSummary({ imported: imported.length, errors });
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([serializeProfiles(profiles)], { type: "application/json" }),
+      "export-profiles.json"
+    );
+  };
+
+  return (
+    <Flex gap={2} align="center">
+      <Select
+        flex="1"
+        aria-label="Export profile"
+        value={activeProfile?.id ?? NONE_KEY}
+        onChange={(e) =>
+          onApply(
+            profiles.find((profile) => profile.id === e.target.value) ?? null
+          )
+        }
+      >
+        <option value={NONE_KEY}>No profile</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </Select>
+
+      <Popover placement="bottom-end">
+        <PopoverTrigger>
+          <Button size="sm" variant="ghost">
+            Save
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent w="260px">
+          <PopoverArrow />
+          <PopoverBody>
+            <Text fontSize="sm" mb={2}>
+              Save the aspect ratio, output size, format and file name as a
+              profile
+            </Text>
+            <Flex gap={2}>
+              <Input
+                size="sm"
+                placeholder="Profile name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSave();
+                }}
+              />
+              <Button
+                size="sm"
+                colorScheme="blue"
+                onClick={handleSave}
+                isDisabled={!profileName.trim()}
+              >
+                Add
+              </Button>
+            </Flex>
+          </PopoverBody>
+        </PopoverContent>
+      </Popover>
+
+      <Popover placement="bottom-end" onClose={() => setImportSummary(null)}>
+        <PopoverTrigger>
+          <Button size="sm" variant="ghost">
+            Manage
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent w="320px">
+          <PopoverArrow />
+          <PopoverBody>
+            <Stack spacing={2}>
+              {profiles.length === 0 && (
+                <Text fontSize="sm" color="gray.500">
+                  No profiles yet
+                </Text>
+              )}
+              {profiles.map((profile) => (
+                <Flex key={profile.id} align="center" gap={1}>
+                  <Input
+                    size="sm"
+                    variant="flushed"
+                    flex="1"
+                    aria-label="Profile name"
+                    value={profile.name}
+                    onChange={(e) =>
+                      onProfilesChange(
+                        profiles.map((entry) =>
+                          entry.id === profile.id
+                            ? { ...entry, name: e.target.value }
+                            : entry
+                        )
+                      )
+                    }
+                  />
+                  <IconButton
+                    aria-label={`Delete ${profile.name}`}
+                    icon={<Box as="span">🗑️</Box>}
+                    size="xs"
+                    variant="ghost"
+                    onClick={() =>
+                      onProfilesChange(
+                        profiles.filter((entry) => entry.id !== profile.id)
+                      )
+                    }
+                  />
+                </Flex>
+              ))}
+
+              <Flex gap={2} justify="flex-end">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Import JSON
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleExport}
+                  isDisabled={profiles.length === 0}
+                >
+                  Export JSON
+                </Button>
+              </Flex>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+
+              {importSummary && (
+                <Alert
+                  status={
+                    importSummary.errors.length === 0
+                      ? "success"
+                      : importSummary.imported > 0
+                      ? "warning"
+                      : "error"
+                  }
+                  fontSize="sm"
+                  alignItems="flex-start"
+                >
+                  <AlertIcon />
+                  <AlertDescription>
+                    Imported {importSummary.imported} profile
+                    {importSummary.imported === 1 ? "" : "s"}
+                    {importSummary.errors.length > 0 && (
+                      <UnorderedList mt={1}>
+                        {importSummary.errors.map((error) => (
+                          <ListItem key={error}>{error}</ListItem>
+                        ))}
+                      </UnorderedList>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </Stack>
+          </PopoverBody>
+        </PopoverContent>
+      </Popover>
+    </Flex>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect } from "react";
+import {
+  Box,
+  Button,
+  CloseButton,
+  Flex,
+  Progress,
+  Stack,
+  Text,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import { ExportJob, isJobActive } from "./exportQueue";
+
+interface ExportQueuePanelProps {
+  jobs: ExportJob[];
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onClear: () => void;
+}
+
+// How long the panel stays up after every job finished successfully
+const AUTO_CLEAR_DELAY = 4000;
+
+const STATUS_LABELS: Record<ExportJob["status"], string> = {
+  queued: "Waiting",
+  running: "Exporting",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// Floating list of running and recent exports
+export const ExportQueuePanel = ({
+  jobs,
+  onCancel,
+  onCancelAll,
+  onClear,
+}: ExportQueuePanelProps) => {
+  const bg = useColorModeValue("white", "gray.700");
+  const activeCount = jobs.filter(isJobActive).length;
+  const isAllDone =
+    jobs.length > 0 && jobs.every((job) => job.status === "done");
+
+  useEffect(() => {
+    if (!isAllDone) return;
+    const timeout = setTimeout(onClear, AUTO_CLEAR_DELAY);
+    return () => clearTimeout(timeout);
+  }, [isAllDone, onClear]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Box
+      position="fixed"
+      bottom={4}
+      right={4}
+      w="320px"
+      maxH="50vh"
+      overflowY="auto"
+      bg={bg}
+      borderWidth="1px"
+      borderRadius="md"
+      boxShadow="lg"
+      p={3}
+      zIndex="toast"
+      role="region"
+      aria-label="Exports"
+    >
+      <Flex justify="space-between" align="center" mb={2}>
+        <Text fontWeight="bold" fontSize="sm">
+          {activeCount > 0
+            ? `Exporting ${activeCount} of ${jobs.length}`
+            : "Exports finished"}
+        </Text>
+        {activeCount > 0 ? (
+          <Button size="xs" variant="ghost" onClick={onCancelAll}>
+            Cancel all
+          </Button>
+        ) : (
+          <CloseButton size="sm" onClick={onClear} />
+        )}
+      </Flex>
+      <Stack spacing={2}>
+        {jobs.map((job) => (
+          <Box key={job.id}>
+            <Flex align="center" gap={2}>
+              <Text fontSize="xs" flex="1" noOfLines={1} title={job.label}>
+                {job.label}
+              </Text>
+              <Text
+                fontSize="xs"
+                color={job.status === "failed" ? "red.500" : "gray.500"}
+              >
+                {STATUS_LABELS[job.status]}
+              </Text>
+              {isJobActive(job) && (
+                <CloseButton
+                  size="sm"
+                  aria-label={`Cancel ${job.label}`}
+                  onClick={() => onCancel(job.id)}
+                />
+              )}
+            </Flex>
+            {isJobActive(job) && (
+              <Progress
+                size="xs"
+                value={job.progress * 100}
+                isIndeterminate={job.status === "running" && job.progress === 0}
+                borderRadius="sm"
+              />
+            )}
+            {job.error && (
+              <Text fontSize="xs" color="red.500">
+                {job.error}
+              </Text>
+            )}
+          </Box>
+        ))}
+      </Stack>
+    </Box>
+  );
+};
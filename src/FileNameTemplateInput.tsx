@@ -0,0 +1,91 @@
+import React, { useRef } from "react";
+import {
+  Button,
+  Flex,
+  Input,
+  Stack,
+  Text,
+  Tooltip,
+  Wrap,
+  WrapItem,
+} from "@chakra-ui/react";
+import { ExportFormat } from "./exportSettings";
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  FileNameTokens,
+  FileNameValues,
+  renderFileName,
+} from "./fileNameTemplate";
+
+interface FileNameTemplateInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Export the preview is rendered for
+  preview: FileNameValues;
+  format: ExportFormat;
+  isDisabled?: boolean;
+}
+
+export const FileNameTemplateInput = ({
+  value,
+  onChange,
+  preview,
+  format,
+  isDisabled,
+}: FileNameTemplateInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Inserts a token at the cursor, or at the end when the field is not focused
+  const insertToken = (token: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + token + value.slice(end));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Flex justify="space-between" align="center">
+        <Text fontSize="sm">File name</Text>
+        <Input
+          ref={inputRef}
+          w="70%"
+          size="sm"
+          aria-label="File name template"
+          placeholder={DEFAULT_FILE_NAME_TEMPLATE}
+          value={value}
+          isDisabled={isDisabled}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={() => {
+            if (!value.trim()) onChange(DEFAULT_FILE_NAME_TEMPLATE);
+          }}
+        />
+      </Flex>
+      <Wrap spacing={1}>
+        {FileNameTokens.map(({ token, description }) => (
+          <WrapItem key={token}>
+            <Tooltip label={description}>
+              <Button
+                size="xs"
+                variant="outline"
+                fontFamily="mono"
+                isDisabled={isDisabled}
+                onClick={() => insertToken(token)}
+              >
+                {token}
+              </Button>
+            </Tooltip>
+          </WrapItem>
+        ))}
+      </Wrap>
+      <Text fontSize="xs" color="gray.500" noOfLines={1} aria-live="polite">
+        Preview:{" "}
+        {renderFileName(value || DEFAULT_FILE_NAME_TEMPLATE, preview, format)}
+      </Text>
+    </Stack>
+  );
+};
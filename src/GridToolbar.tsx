@@ -0,0 +1,70 @@
+import React from "react";
+import { Flex, IconButton, Input, Select, Tooltip } from "@chakra-ui/react";
+import {
+  GridSortKey,
+  GridSortOptions,
+  GridStatusFilter,
+  GridStatusOptions,
+  GridView,
+} from "./gridView";
+
+interface GridToolbarProps {
+  view: GridView;
+  onChange: (view: GridView) => void;
+}
+
+export const GridToolbar = ({ view, onChange }: GridToolbarProps) => {
+  const update = (changes: Partial<GridView>) =>
+    onChange({ ...view, ...changes });
+  const isAscending = view.direction === "asc";
+
+  return (
+    <Flex w="100%" gap={2} mb={4} wrap="wrap">
+      <Input
+        size="sm"
+        flex="1"
+        minW="160px"
+        type="search"
+        placeholder="Search by file name"
+        aria-label="Search by file name"
+        value={view.search}
+        onChange={(e) => update({ search: e.target.value })}
+      />
+      <Select
+        size="sm"
+        w="auto"
+        aria-label="Sort by"
+        value={view.sort}
+        onChange={(e) => update({ sort: e.target.value as GridSortKey })}
+      >
+        {GridSortOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            Sort: {option.label}
+          </option>
+        ))}
+      </Select>
+      <Tooltip label={isAscending ? "Ascending" : "Descending"}>
+        <IconButton
+          size="sm"
+          variant="outline"
+          aria-label={`Sort ${isAscending ? "descending" : "ascending"}`}
+          icon={<span>{isAscending ? "↑" : "↓"}</span>}
+          onClick={() => update({ direction: isAscending ? "desc" : "asc" })}
+        />
+      </Tooltip>
+      <Select
+        size="sm"
+        w="auto"
+        aria-label="Show"
+        value={view.status}
+        onChange={(e) => update({ status: e.target.value as GridStatusFilter })}
+      >
+        {GridStatusOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </Select>
+    </Flex>
+  );
+};
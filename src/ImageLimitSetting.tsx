@@ -0,0 +1,75 @@
+import React from "react";
+import {
+  Box,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  IconButton,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  Popover,
+  PopoverArrow,
+  PopoverBody,
+  PopoverContent,
+  PopoverTrigger,
+  Tooltip,
+} from "@chakra-ui/react";
+import { MAX_IMAGE_LIMIT, MIN_IMAGE_LIMIT } from "./workspaceLimits";
+
+interface ImageLimitSettingProps {
+  value: number;
+  // Called while typing too; the input clamps to the allowed range on blur
+  onChange: (limit: number) => void;
+  // Default for this device, based on the memory it reports
+  suggested: number;
+}
+
+export const ImageLimitSetting = ({
+  value,
+  onChange,
+  suggested,
+}: ImageLimitSettingProps) => (
+  <Popover placement="bottom-end">
+    <Tooltip label="Workspace settings">
+      <Box display="inline-block">
+        <PopoverTrigger>
+          <IconButton
+            aria-label="Workspace settings"
+            icon={<Box as="span">⚙️</Box>}
+            variant="ghost"
+          />
+        </PopoverTrigger>
+      </Box>
+    </Tooltip>
+    <PopoverContent>
+      <PopoverArrow />
+      <PopoverBody>
+        <FormControl>
+          <FormLabel fontSize="sm">Maximum images</FormLabel>
+          <NumberInput
+            size="sm"
+            min={MIN_IMAGE_LIMIT}
+            max={MAX_IMAGE_LIMIT}
+            value={value}
+            onChange={(_, limit) => {
+              if (!Number.isNaN(limit)) onChange(limit);
+            }}
+          >
+            <NumberInputField />
+            <NumberInputStepper>
+              <NumberIncrementStepper />
+              <NumberDecrementStepper />
+            </NumberInputStepper>
+          </NumberInput>
+          <FormHelperText>
+            Suggested for this device: {suggested}. Higher limits use more
+            memory and browser storage.
+          </FormHelperText>
+        </FormControl>
+      </PopoverBody>
+    </PopoverContent>
+  </Popover>
+);
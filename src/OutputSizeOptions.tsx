@@ -0,0 +1,198 @@
+import React from "react";
+import {
+  Flex,
+  FormControl,
+  FormLabel,
+  Grid,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  Select,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import { Dimensions } from "./cropEngine";
+import {
+  isUpscaling,
+  OutputMode,
+  OutputModes,
+  OutputSettings,
+  PrintUnit,
+  resolveOutputSize,
+} from "./outputSize";
+
+interface OutputSizeOptionsProps {
+  value: OutputSettings;
+  onChange: (value: OutputSettings) => void;
+  // Size of the current crop in source pixels
+  cropSize: Dimensions;
+  isDisabled?: boolean;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  precision?: number;
+  isDisabled?: boolean;
+}
+
+const NumberField = ({
+  label,
+  value,
+  onChange,
+  min = 1,
+  max = 20000,
+  step = 1,
+  precision,
+  isDisabled,
+}: NumberFieldProps) => (
+  <FormControl>
+    <FormLabel fontSize="sm">{label}</FormLabel>
+    <NumberInput
+      min={min}
+      max={max}
+      step={step}
+      precision={precision}
+      value={value}
+      isDisabled={isDisabled}
+      onChange={(_, number) => {
+        if (!Number.isNaN(number)) onChange(number);
+      }}
+    >
+      <NumberInputField />
+      <NumberInputStepper>
+        <NumberIncrementStepper />
+        <NumberDecrementStepper />
+      </NumberInputStepper>
+    </NumberInput>
+  </FormControl>
+);
+
+export const OutputSizeOptions = ({
+  value,
+  onChange,
+  cropSize,
+  isDisabled,
+}: OutputSizeOptionsProps) => {
+  const update = (changes: Partial<OutputSettings>) =>
+    onChange({ ...value, ...changes });
+  const output = resolveOutputSize(value, cropSize) ?? cropSize;
+
+  return (
+    <Stack spacing={3}>
+      <Flex justify="space-between" align="center">
+        <Text fontWeight="bold">Output Size</Text>
+        <Select
+          w="70%"
+          value={value.mode}
+          isDisabled={isDisabled}
+          onChange={(e) => update({ mode: e.target.value as OutputMode })}
+        >
+          {OutputModes.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </Select>
+      </Flex>
+
+      {value.mode === "exact" && (
+        <Grid templateColumns="repeat(2, 1fr)" gap={4}>
+          <NumberField
+            label="Width (px)"
+            value={value.width}
+            onChange={(width) => update({ width })}
+            isDisabled={isDisabled}
+          />
+          <NumberField
+            label="Height (px)"
+            value={value.height}
+            onChange={(height) => update({ height })}
+            isDisabled={isDisabled}
+          />
+        </Grid>
+      )}
+
+      {value.mode === "maxEdge" && (
+        <NumberField
+          label="Longest edge (px)"
+          value={value.maxEdge}
+          onChange={(maxEdge) => update({ maxEdge })}
+          isDisabled={isDisabled}
+        />
+      )}
+
+      {value.mode === "percent" && (
+        <NumberField
+          label="Scale (%)"
+          value={value.percent}
+          max={1000}
+          onChange={(percent) => update({ percent })}
+          isDisabled={isDisabled}
+        />
+      )}
+
+      {value.mode === "print" && (
+        <Grid templateColumns="repeat(2, 1fr)" gap={4}>
+          <NumberField
+            label={`Width (${value.unit})`}
+            value={value.printWidth}
+            min={0.1}
+            max={1000}
+            step={0.1}
+            precision={2}
+            onChange={(printWidth) => update({ printWidth })}
+            isDisabled={isDisabled}
+          />
+          <NumberField
+            label={`Height (${value.unit})`}
+            value={value.printHeight}
+            min={0.1}
+            max={1000}
+            step={0.1}
+            precision={2}
+            onChange={(printHeight) => update({ printHeight })}
+            isDisabled={isDisabled}
+          />
+          <FormControl>
+            <FormLabel fontSize="sm">Unit</FormLabel>
+            <Select
+              value={value.unit}
+              isDisabled={isDisabled}
+              onChange={(e) => update({ unit: e.target.value as PrintUnit })}
+            >
+              <option value="in">Inches</option>
+              <option value="cm">Centimetres</option>
+            </Select>
+          </FormControl>
+          <NumberField
+            label="Resolution (DPI)"
+            value={value.dpi}
+            min={1}
+            max={2400}
+            onChange={(dpi) => update({ dpi })}
+            isDisabled={isDisabled}
+          />
+        </Grid>
+      )}
+
+      <Text fontSize="sm" color="gray.500">
+        Output: {output.width} x {output.height} px
+        {value.mode === "print" && ` at ${value.dpi} DPI`}
+      </Text>
+      {isUpscaling(cropSize, resolveOutputSize(value, cropSize)) && (
+        <Text fontSize="sm" color="orange.400">
+          The output is larger than the crop ({Math.round(cropSize.width)} x{" "}
+          {Math.round(cropSize.height)} px), so the image will be upscaled and
+          may look soft.
+        </Text>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,91 @@
+import React from "react";
+import {
+  Button,
+  Flex,
+  Input,
+  Select,
+  Stack,
+  Switch,
+  Text,
+} from "@chakra-ui/react";
+import { PaddingFill, PaddingFills, PaddingSettings } from "./canvasPadding";
+import { ExportFormat, getFormatInfo } from "./exportSettings";
+
+interface PaddingOptionsProps {
+  value: PaddingSettings;
+  onChange: (value: PaddingSettings) => void;
+  // Pads the whole image out to the current aspect ratio
+  onFitImage: () => void;
+  format: ExportFormat;
+}
+
+export const PaddingOptions = ({
+  value,
+  onChange,
+  onFitImage,
+  format,
+}: PaddingOptionsProps) => {
+  const update = (changes: Partial<PaddingSettings>) =>
+    onChange({ ...value, ...changes });
+  const formatInfo = getFormatInfo(format);
+
+  return (
+    <Stack spacing={3}>
+      <Flex justify="space-between" align="center">
+        <Text fontWeight="bold" as="label" htmlFor="extend-canvas">
+          Extend canvas
+        </Text>
+        <Flex w="70%" align="center" justify="space-between">
+          <Switch
+            id="extend-canvas"
+            isChecked={value.isEnabled}
+            onChange={(e) => update({ isEnabled: e.target.checked })}
+          />
+          {value.isEnabled && (
+            <Button size="sm" variant="ghost" onClick={onFitImage}>
+              Fit whole image
+            </Button>
+          )}
+        </Flex>
+      </Flex>
+
+      {value.isEnabled && (
+        <>
+          <Flex justify="space-between" align="center">
+            <Text fontWeight="bold">Padding</Text>
+            <Select
+              w="70%"
+              value={value.fill}
+              onChange={(e) => update({ fill: e.target.value as PaddingFill })}
+            >
+              {PaddingFills.map((fill) => (
+                <option key={fill.value} value={fill.value}>
+                  {fill.label}
+                </option>
+              ))}
+            </Select>
+          </Flex>
+          {value.fill === "color" && (
+            <Flex justify="space-between" align="center">
+              <Text fontWeight="bold">Color</Text>
+              <Input
+                type="color"
+                w="70%"
+                p={1}
+                value={value.color}
+                onChange={(e) => update({ color: e.target.value })}
+              />
+            </Flex>
+          )}
+          <Text fontSize="xs" color="gray.500">
+            Zoom out or drag past the edges to pad the image instead of cutting
+            it.
+            {value.fill === "transparent" &&
+              !formatInfo.alpha &&
+              ` ${formatInfo.label} has no transparency, so the padding is filled with the background color.`}
+          </Text>
+        </>
+      )}
+    </Stack>
+  );
+};
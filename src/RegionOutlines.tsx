@@ -0,0 +1,66 @@
+import React from "react";
+import { Box } from "@chakra-ui/react";
+import { CropRegion, Dimensions, Point } from "./types";
+import { toCropperArea } from "./cropRegions";
+
+interface RegionOutlinesProps {
+  regions: CropRegion[];
+  // Rotated image size, the space region areas are in
+  bounds: Dimensions;
+  crop: Point;
+  // Cropper zoom times the displayed size of the image over its natural size
+  scale: number;
+}
+
+// Outlines of saved regions drawn over the cropper. Does not take pointer
+// events, so the cropper underneath stays usable.
+export const RegionOutlines = ({
+  regions,
+  bounds,
+  crop,
+  scale,
+}: RegionOutlinesProps) => (
+  <Box
+    position="absolute"
+    inset={0}
+    overflow="hidden"
+    pointerEvents="none"
+    zIndex={1}
+    aria-hidden
+  >
+    {regions.map((region) => {
+      const { x, y, width, height } = toCropperArea(
+        region.area,
+        bounds,
+        crop,
+        scale
+      );
+      return (
+        <Box
+          key={region.id}
+          position="absolute"
+          left={`calc(50% + ${x}px)`}
+          top={`calc(50% + ${y}px)`}
+          w={`${width}px`}
+          h={`${height}px`}
+          border="2px dashed"
+          borderColor="yellow.300"
+        >
+          <Box
+            as="span"
+            position="absolute"
+            top={0}
+            left={0}
+            px={1}
+            fontSize="xs"
+            bg="blackAlpha.700"
+            color="yellow.300"
+            whiteSpace="nowrap"
+          >
+            {region.name}
+          </Box>
+        </Box>
+      );
+    })}
+  </Box>
+);
@@ -0,0 +1,52 @@
+import React from "react";
+import {
+  Kbd,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Table,
+  Tbody,
+  Td,
+  Tr,
+} from "@chakra-ui/react";
+import { CropShortcuts, getShortcutAction } from "./cropShortcuts";
+
+interface ShortcutHelpModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const ShortcutHelpModal = ({
+  isOpen,
+  onClose,
+}: ShortcutHelpModalProps) => (
+  <Modal isOpen={isOpen} onClose={onClose} size="md">
+    <ModalOverlay />
+    {/* "?" closes the list again, like it opened it */}
+    <ModalContent
+      onKeyDown={(event) => {
+        if (getShortcutAction(event)?.type === "help") onClose();
+      }}
+    >
+      <ModalHeader>Keyboard Shortcuts</ModalHeader>
+      <ModalCloseButton />
+      <ModalBody pb={6}>
+        <Table size="sm">
+          <Tbody>
+            {CropShortcuts.map((shortcut) => (
+              <Tr key={shortcut.keys}>
+                <Td whiteSpace="nowrap">
+                  <Kbd>{shortcut.keys}</Kbd>
+                </Td>
+                <Td>{shortcut.description}</Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </ModalBody>
+    </ModalContent>
+  </Modal>
+);
@@ -0,0 +1,91 @@
+import React, {
+  Fragment,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { Box, Grid, useBreakpointValue } from "@chakra-ui/react";
+import { getVisibleRows } from "./virtualGrid";
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Fixed height of every row, in pixels
+  rowHeight: number;
+  gap?: number;
+}
+
+// Same columns per breakpoint as the original grid
+const COLUMNS = { base: 1, sm: 2, md: 3, lg: 4, xl: 5 };
+
+// Grid that scrolls with the page but only mounts the rows near the viewport,
+// so hundreds of cards cost no more than a screenful
+export const VirtualGrid = <T,>({
+  items,
+  getKey,
+  renderItem,
+  rowHeight,
+  gap = 24,
+}: VirtualGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const columns = useBreakpointValue(COLUMNS) ?? 1;
+  const [viewport, setViewport] = useState({
+    scrollTop: 0,
+    height: window.innerHeight,
+  });
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewport({
+      scrollTop: -container.getBoundingClientRect().top,
+      height: window.innerHeight,
+    });
+  }, []);
+
+  useEffect(() => {
+    measure();
+    window.addEventListener("scroll", measure, { passive: true });
+    window.addEventListener("resize", measure);
+    return () => {
+      window.removeEventListener("scroll", measure);
+      window.removeEventListener("resize", measure);
+    };
+  }, [measure]);
+
+  // Content above the grid may have moved with the item count
+  useEffect(measure, [measure, items.length, columns]);
+
+  const rowCount = Math.ceil(items.length / columns);
+  const { start, end } = getVisibleRows({
+    scrollTop: viewport.scrollTop,
+    viewportHeight: viewport.height,
+    rowHeight: rowHeight + gap,
+    rowCount,
+  });
+
+  return (
+    <Box
+      ref={containerRef}
+      position="relative"
+      w="100%"
+      h={`${Math.max(0, rowCount * (rowHeight + gap) - gap)}px`}
+    >
+      <Grid
+        position="absolute"
+        top={`${start * (rowHeight + gap)}px`}
+        left={0}
+        right={0}
+        templateColumns={`repeat(${columns}, 1fr)`}
+        autoRows={`${rowHeight}px`}
+        gap={`${gap}px`}
+      >
+        {items.slice(start * columns, end * columns).map((item) => (
+          <Fragment key={getKey(item)}>{renderItem(item)}</Fragment>
+        ))}
+      </Grid>
+    </Box>
+  );
+};
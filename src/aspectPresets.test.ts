@@ -0,0 +1,37 @@
+import { formatRatio, getAspectRatioLabel, parseRatio } from "./aspectPresets";
+
+test("parseRatio accepts the common W:H spellings", () => {
+  expect(parseRatio("16:9")).toBeCloseTo(16 / 9);
+  expect(parseRatio("4x5")).toBeCloseTo(0.8);
+  expect(parseRatio("2 / 3")).toBeCloseTo(2 / 3);
+  expect(parseRatio("1.91:1")).toBeCloseTo(1.91);
+  expect(parseRatio("1.5")).toBe(1.5);
+});
+
+test("parseRatio rejects malformed or non-positive ratios", () => {
+  expect(parseRatio("")).toBeNull();
+  expect(parseRatio("abc")).toBeNull();
+  expect(parseRatio("16:0")).toBeNull();
+  expect(parseRatio("-4:3")).toBeNull();
+  expect(parseRatio("1:2:3")).toBeNull();
+});
+
+test("formatRatio prefers small whole numbers", () => {
+  expect(formatRatio(16 / 9)).toBe("16:9");
+  expect(formatRatio(0.8)).toBe("4:5");
+  expect(formatRatio(3)).toBe("3:1");
+  expect(formatRatio(Math.SQRT2)).toBe("1.41:1");
+  expect(formatRatio(1 / Math.SQRT2)).toBe("1:1.41");
+  expect(formatRatio(0)).toBe("");
+});
+
+test("getAspectRatioLabel names basic options and presets", () => {
+  expect(getAspectRatioLabel(1)).toBe("1:1 (Square)");
+  expect(getAspectRatioLabel(3)).toBe("X / Twitter header (3:1)");
+  expect(
+    getAspectRatioLabel(7 / 5, [
+      { id: "a", label: "Poster", width: 7, height: 5 },
+    ])
+  ).toBe("Poster (7:5)");
+  expect(getAspectRatioLabel(13 / 7)).toBe("13:7");
+});
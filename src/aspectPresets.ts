@@ -0,0 +1,119 @@
+import { AspectRatioOptions } from "./types";
+
+export interface AspectPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface AspectPresetGroup {
+  label: string;
+  presets: AspectPreset[];
+}
+
+export const PlatformPresets: AspectPresetGroup[] = [
+  {
+    label: "Social media",
+    presets: [
+      {
+        id: "instagram-portrait",
+        label: "Instagram portrait",
+        width: 4,
+        height: 5,
+      },
+      {
+        id: "instagram-story",
+        label: "Instagram / TikTok story",
+        width: 9,
+        height: 16,
+      },
+      {
+        id: "open-graph",
+        label: "Open Graph / link preview",
+        width: 1.91,
+        height: 1,
+      },
+      {
+        id: "twitter-header",
+        label: "X / Twitter header",
+        width: 3,
+        height: 1,
+      },
+      {
+        id: "facebook-cover",
+        label: "Facebook cover",
+        width: 820,
+        height: 312,
+      },
+      { id: "linkedin-banner", label: "LinkedIn banner", width: 4, height: 1 },
+      {
+        id: "youtube-thumbnail",
+        label: "YouTube thumbnail",
+        width: 16,
+        height: 9,
+      },
+      { id: "pinterest-pin", label: "Pinterest pin", width: 2, height: 3 },
+    ],
+  },
+  {
+    label: "Print",
+    presets: [
+      { id: "print-4x6", label: "4×6 in / 10×15 cm", width: 2, height: 3 },
+      { id: "print-5x7", label: "5×7 in", width: 5, height: 7 },
+      { id: "print-8x10", label: "8×10 in", width: 4, height: 5 },
+      {
+        id: "print-a-series",
+        label: "A4 / A-series",
+        width: 1,
+        height: Math.SQRT2,
+      },
+    ],
+  },
+];
+
+export const getPresetRatio = (preset: AspectPreset) =>
+  preset.width / preset.height;
+
+// Accepts "16:9", "16x9", "16/9", "1.91:1" or a plain decimal like "1.5"
+export const parseRatio = (text: string): number | null => {
+  const parts = text
+    .trim()
+    .split(/\s*[:x×/]\s*/i)
+    .map(Number);
+  if (parts.length > 2 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  const [width, height = 1] = parts;
+  if (!(width > 0) || !(height > 0)) return null;
+  return width / height;
+};
+
+const sameRatio = (a: number, b: number) => Math.abs(a - b) < 0.001;
+
+// Short W:H form of a ratio, using small whole numbers when they exist
+export const formatRatio = (ratio: number): string => {
+  if (ratio <= 0) return "";
+  for (let height = 1; height <= 20; height++) {
+    const width = ratio * height;
+    if (Math.abs(width - Math.round(width)) < 0.005) {
+      return `${Math.round(width)}:${height}`;
+    }
+  }
+  return ratio >= 1 ? `${+ratio.toFixed(2)}:1` : `1:${+(1 / ratio).toFixed(2)}`;
+};
+
+// Human-readable name of a ratio, preferring basic options and named presets
+export const getAspectRatioLabel = (
+  ratio: number,
+  savedPresets: AspectPreset[] = []
+): string => {
+  const basic = AspectRatioOptions.find((option) => option.value === ratio);
+  if (basic) return basic.label;
+
+  const named = [
+    ...savedPresets,
+    ...PlatformPresets.flatMap((group) => group.presets),
+  ].find((preset) => sameRatio(getPresetRatio(preset), ratio));
+  return named ? `${named.label} (${formatRatio(ratio)})` : formatRatio(ratio);
+};
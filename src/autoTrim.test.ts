@@ -0,0 +1,146 @@
+import { describeTrim, detectTransformedTrim, findTrimArea } from "./autoTrim";
+
+type Pixel = [number, number, number, number];
+
+// Image filled with `border`, with `content` drawn over the given area
+const createImage = (
+  width: number,
+  height: number,
+  border: Pixel,
+  content: Pixel,
+  area: { x: number; y: number; width: number; height: number }
+) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside =
+        x >= area.x &&
+        x < area.x + area.width &&
+        y >= area.y &&
+        y < area.y + area.height;
+      data.set(inside ? content : border, (y * width + x) * 4);
+    }
+  }
+  return data;
+};
+
+const white: Pixel = [255, 255, 255, 255];
+const black: Pixel = [0, 0, 0, 255];
+
+test("findTrimArea removes a solid border", () => {
+  const data = createImage(20, 10, white, black, {
+    x: 3,
+    y: 2,
+    width: 10,
+    height: 5,
+  });
+
+  expect(findTrimArea(data, 20, 10, { tolerance: 0, padding: 0 })).toEqual({
+    area: { x: 3, y: 2, width: 10, height: 5 },
+    margins: { top: 2, right: 7, bottom: 3, left: 3 },
+    background: "#ffffff",
+  });
+});
+
+test("findTrimArea keeps padding inside the image", () => {
+  const data = createImage(20, 10, white, black, {
+    x: 1,
+    y: 2,
+    width: 10,
+    height: 5,
+  });
+
+  const result = findTrimArea(data, 20, 10, { tolerance: 0, padding: 2 });
+
+  expect(result?.area).toEqual({ x: 0, y: 0, width: 13, height: 9 });
+  expect(result?.margins).toEqual({ top: 0, right: 7, bottom: 1, left: 0 });
+});
+
+test("findTrimArea honours the tolerance", () => {
+  const offWhite: Pixel = [245, 245, 245, 255];
+  const data = createImage(10, 10, white, offWhite, {
+    x: 2,
+    y: 2,
+    width: 6,
+    height: 6,
+  });
+
+  expect(
+    findTrimArea(data, 10, 10, { tolerance: 0, padding: 0 })?.area
+  ).toEqual({ x: 2, y: 2, width: 6, height: 6 });
+  expect(findTrimArea(data, 10, 10, { tolerance: 10, padding: 0 })).toBeNull();
+});
+
+test("findTrimArea detects transparent margins", () => {
+  const data = createImage(10, 10, [0, 0, 0, 0], black, {
+    x: 0,
+    y: 4,
+    width: 10,
+    height: 2,
+  });
+
+  const result = findTrimArea(data, 10, 10, { tolerance: 0, padding: 0 });
+
+  expect(result?.background).toBe("transparent");
+  expect(result?.area).toEqual({ x: 0, y: 4, width: 10, height: 2 });
+});
+
+test("findTrimArea finds nothing without a border", () => {
+  const data = createImage(10, 10, white, black, {
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+  });
+
+  expect(findTrimArea(data, 10, 10, { tolerance: 0, padding: 0 })).toBeNull();
+});
+
+test("describeTrim lists the trimmed sides", () => {
+  expect(
+    describeTrim({
+      area: { x: 0, y: 42, width: 100, height: 100 },
+      margins: { top: 42, right: 0, bottom: 40, left: 0 },
+      background: "#ffffff",
+    })
+  ).toBe("Trimmed 42px top, 40px bottom");
+  expect(describeTrim(null)).toBe("No uniform border found");
+});
+
+test("detectTransformedTrim trims the rotated image in rotated coordinates", async () => {
+  // A 200 x 100 image turned upright to 100 x 200, with a band at the top
+  const source = document.createElement("img");
+  Object.defineProperty(source, "naturalWidth", { value: 200 });
+  Object.defineProperty(source, "naturalHeight", { value: 100 });
+  const context = {
+    scale: jest.fn(),
+    translate: jest.fn(),
+    rotate: jest.fn(),
+    drawImage: jest.fn(),
+    getImageData: jest.fn(() => ({
+      data: createImage(100, 200, white, black, {
+        x: 0,
+        y: 30,
+        width: 100,
+        height: 170,
+      }),
+    })),
+  };
+  const getContext = jest
+    .spyOn(HTMLCanvasElement.prototype, "getContext")
+    .mockImplementation(() => context as unknown as CanvasRenderingContext2D);
+
+  const transform = { rotation: 90, flipHorizontal: true, flipVertical: false };
+  const result = await detectTransformedTrim(
+    source,
+    { width: 200, height: 100 },
+    { tolerance: 10, padding: 0 },
+    transform
+  );
+
+  expect(context.rotate).toHaveBeenCalledWith(Math.PI / 2);
+  expect(context.scale).toHaveBeenCalledWith(-1, 1);
+  expect(context.getImageData).toHaveBeenCalledWith(0, 0, 100, 200);
+  expect(result?.area).toEqual({ x: 0, y: 30, width: 100, height: 170 });
+  getContext.mockRestore();
+});
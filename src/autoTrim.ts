@@ -0,0 +1,156 @@
+// Detects uniform or transparent margins around an image, such as the white
+// border of a scan or the empty space around a screenshot.
+
+import {
+  Area,
+  CropSource,
+  DEFAULT_TRANSFORM,
+  Dimensions,
+  getContext,
+  ImageTransform,
+  renderCrop,
+  rotateSize,
+} from "./cropEngine";
+
+export interface TrimOptions {
+  // 0-100, how far a pixel may differ from the border colour
+  tolerance: number;
+  // Pixels of border kept around the content
+  padding: number;
+}
+
+export const DEFAULT_TRIM_OPTIONS: TrimOptions = {
+  tolerance: 10,
+  padding: 0,
+};
+
+export interface TrimMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface TrimResult {
+  area: Area;
+  // Removed on each side, after padding
+  margins: TrimMargins;
+  // Border colour as a CSS hex colour, or "transparent"
+  background: string;
+}
+
+// Pixels this transparent or more count as a transparent border
+const TRANSPARENT_ALPHA = 16;
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+
+// Finds the content inside uniform margins. The border colour is taken from
+// the top-left pixel. Returns null when there is no margin to remove or the
+// whole image is a single colour.
+export const findTrimArea = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  { tolerance, padding }: TrimOptions
+): TrimResult | null => {
+  const [r, g, b, a] = Array.from(data.subarray(0, 4));
+  const isTransparent = a < TRANSPARENT_ALPHA;
+  const maxDiff = (Math.min(100, Math.max(0, tolerance)) / 100) * 255;
+
+  const isBorder = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (isTransparent) return data[i + 3] <= TRANSPARENT_ALPHA + maxDiff;
+    return (
+      Math.abs(data[i] - r) <= maxDiff &&
+      Math.abs(data[i + 1] - g) <= maxDiff &&
+      Math.abs(data[i + 2] - b) <= maxDiff &&
+      Math.abs(data[i + 3] - a) <= maxDiff
+    );
+  };
+  const isBorderRow = (y: number) => {
+    for (let x = 0; x < width; x++) if (!isBorder(x, y)) return false;
+    return true;
+  };
+  const isBorderColumn = (x: number, top: number, bottom: number) => {
+    for (let y = top; y <= bottom; y++) if (!isBorder(x, y)) return false;
+    return true;
+  };
+
+  let top = 0;
+  while (top < height && isBorderRow(top)) top++;
+  if (top === height) return null;
+  let bottom = height - 1;
+  while (bottom > top && isBorderRow(bottom)) bottom--;
+  let left = 0;
+  while (left < width && isBorderColumn(left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > left && isBorderColumn(right, top, bottom)) right--;
+
+  const area = {
+    x: Math.max(0, left - padding),
+    y: Math.max(0, top - padding),
+    width: 0,
+    height: 0,
+  };
+  area.width = Math.min(width - 1, right + padding) - area.x + 1;
+  area.height = Math.min(height - 1, bottom + padding) - area.y + 1;
+
+  const margins = {
+    top: area.y,
+    right: width - area.x - area.width,
+    bottom: height - area.y - area.height,
+    left: area.x,
+  };
+  if (Object.values(margins).every((margin) => margin === 0)) return null;
+
+  return {
+    area,
+    margins,
+    background: isTransparent ? "transparent" : toHex(r, g, b),
+  };
+};
+
+// Short summary such as "Trimmed 42px top, 40px bottom"
+export const describeTrim = (result: TrimResult | null) => {
+  if (!result) return "No uniform border found";
+  const sides = (["top", "right", "bottom", "left"] as const)
+    .filter((side) => result.margins[side] > 0)
+    .map((side) => `${result.margins[side]}px ${side}`);
+  return `Trimmed ${sides.join(", ")}`;
+};
+
+// Runs the detection on an image as it is shown in the cropper, so the
+// result is in the coordinates of the rotated image's bounding box
+export const detectTrim = async (
+  source: CropSource,
+  bounds: Dimensions,
+  options: TrimOptions,
+  transform: ImageTransform = DEFAULT_TRANSFORM
+): Promise<TrimResult | null> => {
+  const canvas = await renderCrop(
+    source,
+    { x: 0, y: 0, ...bounds },
+    { transform }
+  );
+  const ctx = getContext(canvas);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return findTrimArea(data, canvas.width, canvas.height, options);
+};
+
+// Like detectTrim, for an image of natural `size` shown with `transform`,
+// such as the rotation and flips of its last crop
+export const detectTransformedTrim = (
+  source: CropSource,
+  size: Dimensions,
+  options: TrimOptions,
+  transform: ImageTransform = DEFAULT_TRANSFORM
+) => {
+  const bounds = rotateSize(size.width, size.height, transform.rotation);
+  return detectTrim(
+    source,
+    { width: Math.round(bounds.width), height: Math.round(bounds.height) },
+    options,
+    transform
+  );
+};
@@ -0,0 +1,68 @@
+import { Area, Dimensions, getLargestArea, scaleToWidth } from "./cropEngine";
+import { AspectRatios } from "./types";
+
+export type Anchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right"
+  // Content-aware placement, centred until the analysis finishes
+  | "smart";
+
+export const Anchors: Anchor[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+  "smart",
+];
+
+export interface BatchCropSettings {
+  aspectRatio: number;
+  anchor: Anchor;
+  // 0 keeps the cropped source size
+  outputWidth: number;
+}
+
+export type BatchItemStatus = "pending" | "processing" | "done" | "error";
+
+export interface BatchItem {
+  imageId: string;
+  area: Area | null;
+  adjusted: boolean;
+  status: BatchItemStatus;
+  error?: string;
+}
+
+const anchorAlignment = (anchor: Anchor) => ({
+  x: anchor.includes("left") ? 0 : anchor.includes("right") ? 1 : 0.5,
+  y: anchor.startsWith("top") ? 0 : anchor.startsWith("bottom") ? 1 : 0.5,
+});
+
+// Largest area with the requested ratio that fits the image, placed at the anchor
+export const computeAnchoredArea = (
+  size: Dimensions,
+  aspectRatio: number,
+  anchor: Anchor
+): Area =>
+  getLargestArea(
+    size,
+    aspectRatio === AspectRatios.ORIGINAL ? 0 : aspectRatio,
+    anchorAlignment(anchor)
+  );
+
+export const getOutputSize = (
+  area: Area,
+  outputWidth: number
+): Dimensions | undefined =>
+  outputWidth > 0 ? scaleToWidth(area, outputWidth) : undefined;
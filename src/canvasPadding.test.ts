@@ -0,0 +1,40 @@
+import {
+  DEFAULT_PADDING_SETTINGS,
+  fromCropPadding,
+  isPaddedArea,
+  toCropPadding,
+} from "./canvasPadding";
+
+test("padding settings round-trip through the crop engine padding", () => {
+  expect(toCropPadding(DEFAULT_PADDING_SETTINGS)).toBeUndefined();
+
+  const color = { isEnabled: true, fill: "color", color: "#123456" } as const;
+  expect(toCropPadding(color)).toEqual({ type: "color", color: "#123456" });
+  expect(
+    fromCropPadding(toCropPadding(color), DEFAULT_PADDING_SETTINGS)
+  ).toEqual(color);
+
+  const mirror = { ...color, fill: "mirror" } as const;
+  expect(toCropPadding(mirror)).toEqual({ type: "mirror" });
+  expect(fromCropPadding({ type: "mirror" }, color)).toEqual(mirror);
+  expect(fromCropPadding(undefined, mirror)).toEqual({
+    ...mirror,
+    isEnabled: false,
+  });
+});
+
+test("isPaddedArea detects crops reaching past the image", () => {
+  const bounds = { width: 100, height: 50 };
+  expect(isPaddedArea({ x: 0, y: 0, width: 100, height: 50 }, bounds)).toBe(
+    false
+  );
+  expect(
+    isPaddedArea({ x: -0.4, y: 0, width: 100.6, height: 50 }, bounds)
+  ).toBe(false);
+  expect(isPaddedArea({ x: -10, y: 0, width: 120, height: 50 }, bounds)).toBe(
+    true
+  );
+  expect(isPaddedArea({ x: 0, y: 0, width: 100, height: 60 }, bounds)).toBe(
+    true
+  );
+});
@@ -0,0 +1,61 @@
+// Extend-canvas mode: the crop may reach past the image, and the crop engine
+// pads the uncovered part instead of the cropper cutting the image down.
+
+import { Area, CropPadding, Dimensions } from "./cropEngine";
+
+export type PaddingFill = CropPadding["type"];
+
+export interface PaddingSettings {
+  isEnabled: boolean;
+  fill: PaddingFill;
+  // Used by the "color" fill
+  color: string;
+}
+
+export const PaddingFills: { value: PaddingFill; label: string }[] = [
+  { value: "blur", label: "Blurred copy" },
+  { value: "mirror", label: "Mirrored edge" },
+  { value: "color", label: "Solid color" },
+  { value: "transparent", label: "Transparent" },
+];
+
+export const DEFAULT_PADDING_SETTINGS: PaddingSettings = {
+  isEnabled: false,
+  fill: "blur",
+  color: "#000000",
+};
+
+// Lowest cropper zoom in extend-canvas mode, so the crop can grow to about
+// five times the image
+export const MIN_PADDED_ZOOM = 0.2;
+
+export const toCropPadding = (
+  settings: PaddingSettings
+): CropPadding | undefined => {
+  if (!settings.isEnabled) return undefined;
+  return settings.fill === "color"
+    ? { type: "color", color: settings.color }
+    : { type: settings.fill };
+};
+
+// Settings that reproduce a recorded padding, keeping the current color for
+// fills without one
+export const fromCropPadding = (
+  padding: CropPadding | undefined,
+  current: PaddingSettings
+): PaddingSettings =>
+  padding
+    ? {
+        isEnabled: true,
+        fill: padding.type,
+        color: padding.type === "color" ? padding.color : current.color,
+      }
+    : { ...current, isEnabled: false };
+
+// Whether any of the area lies outside the image, allowing for the rounding
+// of the cropper's pixel values
+export const isPaddedArea = (area: Area, bounds: Dimensions) =>
+  area.x < -0.5 ||
+  area.y < -0.5 ||
+  area.x + area.width > bounds.width + 0.5 ||
+  area.y + area.height > bounds.height + 0.5;
@@ -0,0 +1,81 @@
+import {
+  fetchImageFile,
+  getClipboardImages,
+  getTransferImageUrls,
+  getPastedFileName,
+} from "./clipboard";
+
+const createClipboard = (data: Record<string, string>, files: File[] = []) =>
+  ({
+    files,
+    getData: (type: string) => data[type] ?? "",
+  } as unknown as DataTransfer);
+
+const date = new Date(2024, 2, 5, 9, 7, 3);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test("getPastedFileName names files after the paste time", () => {
+  expect(getPastedFileName("image/png", date)).toBe(
+    "pasted-2024-03-05-09-07-03.png"
+  );
+  expect(getPastedFileName("image/jpeg", date)).toBe(
+    "pasted-2024-03-05-09-07-03.jpg"
+  );
+});
+
+test("getClipboardImages keeps only images and numbers repeats", () => {
+  const files = getClipboardImages(
+    createClipboard({}, [
+      new File(["a"], "image.png", { type: "image/png" }),
+      new File(["b"], "notes.txt", { type: "text/plain" }),
+      new File(["c"], "image.png", { type: "image/png" }),
+    ]),
+    date
+  );
+  expect(files.map((file) => file.name)).toEqual([
+    "pasted-2024-03-05-09-07-03.png",
+    "pasted-2024-03-05-09-07-03-2.png",
+  ]);
+});
+
+test("getTransferImageUrls reads image sources from HTML", () => {
+  expect(
+    getTransferImageUrls(
+      createClipboard({
+        "text/html":
+          '<p>Hi</p><img src="https://example.com/a.jpg"><img src="relative.png">',
+        "text/plain": "Hi",
+      })
+    )
+  ).toEqual(["https://example.com/a.jpg"]);
+});
+
+test("getTransferImageUrls falls back to links in text", () => {
+  expect(
+    getTransferImageUrls(
+      createClipboard({
+        "text/uri-list": "# comment\r\nhttps://example.com/b.png",
+      })
+    )
+  ).toEqual(["https://example.com/b.png"]);
+  expect(
+    getTransferImageUrls(createClipboard({ "text/plain": "just words" }))
+  ).toEqual([]);
+});
+
+test("fetchImageFile names files after the link, even with stray escapes", async () => {
+  const blob = new Blob(["image"], { type: "image/png" });
+  jest
+    .spyOn(window, "fetch")
+    .mockImplementation(
+      async () => ({ ok: true, blob: async () => blob } as Response)
+    );
+
+  const named = await fetchImageFile("https://example.com/a/photo%20one.png");
+  expect(named.name).toBe("photo one.png");
+  const malformed = await fetchImageFile("https://example.com/100%.png");
+  expect(malformed.name).toBe("100%.png");
+});
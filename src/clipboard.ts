@@ -0,0 +1,114 @@
+// Clipboard intake and output. Pasted screenshots arrive as files; copied or
+// dragged links and web page fragments only carry URLs, which can be fetched
+// when the site allows it.
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/svg+xml": "svg",
+};
+
+// Browsers name every pasted screenshot "image.png", so pasted files are
+// named after the time they arrived instead
+export const getPastedFileName = (type: string, date: Date) => {
+  const extension = EXTENSIONS[type] ?? type.replace(/^image\//, "");
+  return `pasted-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}-${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(
+    date.getSeconds()
+  )}.${extension}`;
+};
+
+// Image files on the clipboard, renamed with getPastedFileName
+export const getClipboardImages = (
+  data: DataTransfer,
+  date = new Date()
+): File[] =>
+  Array.from(data.files)
+    .filter((file) => file.type.startsWith("image/"))
+    .map((file, index) => {
+      const name = getPastedFileName(file.type, date);
+      const unique =
+        index > 0 ? name.replace(/(\.\w+)$/, `-${index + 1}$1`) : name;
+      return new File([file], unique, {
+        type: file.type,
+        lastModified: date.getTime(),
+      });
+    });
+
+const isWebUrl = (text: string) => /^(https?:|blob:|data:image\/)/i.test(text);
+
+// Image URLs in copied or dragged text: the src of every image in an HTML
+// fragment, otherwise links from a URI list or plain text
+export const getTransferImageUrls = (data: DataTransfer): string[] => {
+  const html = data.getData("text/html");
+  if (html) {
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    const sources = Array.from(doc.images)
+      .map((image) => image.getAttribute("src") ?? "")
+      .filter(isWebUrl);
+    if (sources.length > 0) return sources;
+  }
+  const text = data.getData("text/uri-list") || data.getData("text/plain");
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && isWebUrl(line));
+};
+
+// Malformed escapes such as a lone "%" are kept as they are
+const decodeFileName = (name: string) => {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
+
+// Downloads a linked image as a file. Fails with a readable message when the
+// site blocks cross-origin requests or the link is not an image.
+export const fetchImageFile = async (url: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(
+      "The site does not allow loading its images here. Save the image and drop the file instead."
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`The image could not be downloaded (${response.status})`);
+  }
+  const blob = await response.blob();
+  if (!blob.type.startsWith("image/")) {
+    throw new Error("The link does not point to an image");
+  }
+  const linkedName = /^(data|blob):/.test(url)
+    ? ""
+    : new URL(url).pathname.split("/").pop() ?? "";
+  return new File(
+    [blob],
+    decodeFileName(linkedName) || getPastedFileName(blob.type, new Date()),
+    { type: blob.type }
+  );
+};
+
+export const canCopyImages = () =>
+  typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+
+// Puts a PNG, the one image type browsers accept there, on the system
+// clipboard. The image may still be rendering: Safari only allows the write
+// during the click, so the item is created right away.
+export const copyImageToClipboard = async (png: Promise<Blob>) => {
+  if (!canCopyImages()) {
+    throw new Error("This browser cannot copy images to the clipboard");
+  }
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+  } catch (error) {
+    // Prefer the reason the image failed over the clipboard's generic error
+    await png;
+    throw error;
+  }
+};
@@ -0,0 +1,56 @@
+import {
+  getGuideShapes,
+  getPrintBleed,
+  getSpiralPath,
+} from "./compositionGuides";
+import { DEFAULT_OUTPUT_SETTINGS } from "./outputSize";
+
+const size = { width: 300, height: 150 };
+
+test("grid guides scale with the crop box", () => {
+  expect(getGuideShapes("thirds", size)).toEqual([
+    { type: "line", x1: 100, y1: 0, x2: 100, y2: 150 },
+    { type: "line", x1: 0, y1: 50, x2: 300, y2: 50 },
+    { type: "line", x1: 200, y1: 0, x2: 200, y2: 150 },
+    { type: "line", x1: 0, y1: 100, x2: 300, y2: 100 },
+  ]);
+  const [golden] = getGuideShapes("golden", size);
+  expect(golden.type === "line" && golden.x1).toBeCloseTo(114.59, 2);
+  expect(getGuideShapes("avatar", size)).toEqual([
+    { type: "circle", cx: 150, cy: 75, r: 75 },
+  ]);
+});
+
+test("the golden spiral starts in a corner and stays inside the box", () => {
+  const path = getSpiralPath(size);
+  expect(path.startsWith("M 0 150 A 185.41 150 0 0 1 185.41 0")).toBe(true);
+  const points = path
+    .split("A")
+    .slice(1)
+    .map((segment) => segment.trim().split(" ").slice(-2).map(Number));
+  expect(points).toHaveLength(8);
+  points.forEach(([x, y]) => {
+    expect(x).toBeGreaterThanOrEqual(0);
+    expect(x).toBeLessThanOrEqual(300);
+    expect(y).toBeGreaterThanOrEqual(0);
+    expect(y).toBeLessThanOrEqual(150);
+  });
+});
+
+test("print guides use a 3 mm bleed of the print size", () => {
+  const bleed = getPrintBleed({
+    ...DEFAULT_OUTPUT_SETTINGS,
+    mode: "print",
+    printWidth: 10,
+    printHeight: 15,
+    unit: "cm",
+  });
+  expect(bleed.x).toBeCloseTo(0.03);
+  expect(bleed.y).toBeCloseTo(0.02);
+  // Other outputs fall back to the default print size
+  expect(getPrintBleed(DEFAULT_OUTPUT_SETTINGS).x).toBeCloseTo(3 / 152.4);
+
+  const [trim, safety] = getGuideShapes("print", size, { x: 0.1, y: 0.1 });
+  expect(trim).toEqual({ type: "rect", x: 30, y: 15, width: 240, height: 120 });
+  expect(safety).toMatchObject({ x: 60, y: 30, dashed: true });
+});
@@ -0,0 +1,217 @@
+// Composition guides and platform safe zones drawn over the crop box. Shapes
+// are in crop box pixels so they scale with it; they are only ever drawn on
+// screen and never reach the exported image.
+
+import { Dimensions } from "./cropEngine";
+import { DEFAULT_OUTPUT_SETTINGS, OutputSettings } from "./outputSize";
+
+export type CropGuide =
+  | "thirds"
+  | "golden"
+  | "spiral"
+  | "diagonals"
+  | "center"
+  | "avatar"
+  | "youtube"
+  | "story"
+  | "print";
+
+export const CropGuideOptions: {
+  value: CropGuide;
+  label: string;
+  group: "composition" | "safeZone";
+}[] = [
+  { value: "thirds", label: "Rule of thirds", group: "composition" },
+  { value: "golden", label: "Golden ratio", group: "composition" },
+  { value: "spiral", label: "Golden spiral", group: "composition" },
+  { value: "diagonals", label: "Diagonals", group: "composition" },
+  { value: "center", label: "Center cross", group: "composition" },
+  { value: "avatar", label: "Circular avatar", group: "safeZone" },
+  { value: "youtube", label: "YouTube timestamp", group: "safeZone" },
+  { value: "story", label: "Story UI bars", group: "safeZone" },
+  { value: "print", label: "Print bleed and trim", group: "safeZone" },
+];
+
+// Matches the rule-of-thirds grid the cropper showed before guides existed
+export const DEFAULT_CROP_GUIDES: CropGuide[] = ["thirds"];
+
+export type GuideShape =
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "circle"; cx: number; cy: number; r: number }
+  | { type: "path"; d: string }
+  // Shaded area covered by platform UI
+  | { type: "zone"; x: number; y: number; width: number; height: number }
+  // Outline such as a trim line; dashed for softer limits
+  | {
+      type: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      dashed?: boolean;
+    };
+
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+const BLEED_MM = 3;
+const MM_PER_UNIT = { in: 25.4, cm: 10 };
+
+// Approximate areas covered by platform UI, as fractions of the frame. The
+// YouTube duration badge sits in the bottom right corner; story viewers
+// overlay the profile header at the top and the reply bar at the bottom.
+const YOUTUBE_BADGE = { x: 0.8, y: 0.84, width: 0.18, height: 0.13 };
+const STORY_BARS = { top: 0.14, bottom: 0.2 };
+
+const gridLines = (
+  { width, height }: Dimensions,
+  fractions: number[]
+): GuideShape[] =>
+  fractions.flatMap((fraction) => [
+    {
+      type: "line",
+      x1: width * fraction,
+      y1: 0,
+      x2: width * fraction,
+      y2: height,
+    },
+    {
+      type: "line",
+      x1: 0,
+      y1: height * fraction,
+      x2: width,
+      y2: height * fraction,
+    },
+  ]);
+
+// Standard 3 mm bleed as fractions of the print width and height. Outputs
+// without a print size use the default print size.
+export const getPrintBleed = (settings: OutputSettings) => {
+  const { printWidth, printHeight, unit } =
+    settings.mode === "print" ? settings : DEFAULT_OUTPUT_SETTINGS;
+  const bleed = BLEED_MM / MM_PER_UNIT[unit];
+  return { x: bleed / printWidth, y: bleed / printHeight };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Golden spiral made of quarter ellipses, one per golden cut of the box, so
+// it fills boxes of any shape
+export const getSpiralPath = ({ width, height }: Dimensions, turns = 8) => {
+  let x = 0;
+  let y = 0;
+  let w = width;
+  let h = height;
+  const segments = [`M ${round(x)} ${round(y + h)}`];
+
+  for (let step = 0; step < turns; step++) {
+    const pw = w * GOLDEN;
+    const ph = h * GOLDEN;
+    let end: [number, number];
+    let radii: [number, number];
+    switch (step % 4) {
+      case 0:
+        end = [x + pw, y];
+        radii = [pw, h];
+        x += pw;
+        w -= pw;
+        break;
+      case 1:
+        end = [x + w, y + ph];
+        radii = [w, ph];
+        y += ph;
+        h -= ph;
+        break;
+      case 2:
+        end = [x + w - pw, y + h];
+        radii = [pw, h];
+        w -= pw;
+        break;
+      default:
+        end = [x, y + h - ph];
+        radii = [w, ph];
+        h -= ph;
+        break;
+    }
+    segments.push(
+      `A ${round(radii[0])} ${round(radii[1])} 0 0 1 ${round(end[0])} ${round(
+        end[1]
+      )}`
+    );
+  }
+  return segments.join(" ");
+};
+
+export const getGuideShapes = (
+  guide: CropGuide,
+  size: Dimensions,
+  bleed = getPrintBleed(DEFAULT_OUTPUT_SETTINGS)
+): GuideShape[] => {
+  const { width, height } = size;
+  switch (guide) {
+    case "thirds":
+      return gridLines(size, [1 / 3, 2 / 3]);
+    case "golden":
+      return gridLines(size, [1 - GOLDEN, GOLDEN]);
+    case "spiral":
+      return [{ type: "path", d: getSpiralPath(size) }];
+    case "diagonals":
+      return [
+        { type: "line", x1: 0, y1: 0, x2: width, y2: height },
+        { type: "line", x1: width, y1: 0, x2: 0, y2: height },
+      ];
+    case "center":
+      return gridLines(size, [1 / 2]);
+    case "avatar":
+      return [
+        {
+          type: "circle",
+          cx: width / 2,
+          cy: height / 2,
+          r: Math.min(width, height) / 2,
+        },
+      ];
+    case "youtube":
+      return [
+        {
+          type: "zone",
+          x: width * YOUTUBE_BADGE.x,
+          y: height * YOUTUBE_BADGE.y,
+          width: width * YOUTUBE_BADGE.width,
+          height: height * YOUTUBE_BADGE.height,
+        },
+      ];
+    case "story":
+      return [
+        { type: "zone", x: 0, y: 0, width, height: height * STORY_BARS.top },
+        {
+          type: "zone",
+          x: 0,
+          y: height * (1 - STORY_BARS.bottom),
+          width,
+          height: height * STORY_BARS.bottom,
+        },
+      ];
+    case "print": {
+      // Trim line inside the bleed, and a safety margin as wide again
+      const bx = width * bleed.x;
+      const by = height * bleed.y;
+      return [
+        {
+          type: "rect",
+          x: bx,
+          y: by,
+          width: width - 2 * bx,
+          height: height - 2 * by,
+        },
+        {
+          type: "rect",
+          x: 2 * bx,
+          y: 2 * by,
+          width: width - 4 * bx,
+          height: height - 4 * by,
+          dashed: true,
+        },
+      ];
+    }
+  }
+};
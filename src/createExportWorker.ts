@@ -0,0 +1,4 @@
+// Kept apart from exportWorker because Jest cannot parse import.meta; tests
+// replace this module in setupTests
+export const createExportWorker = () =>
+  new Worker(new URL("./exportWorker.worker.ts", import.meta.url));
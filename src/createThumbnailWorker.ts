@@ -0,0 +1,3 @@
+// Kept apart from thumbnailWorker for the same reason as createExportWorker
+export const createThumbnailWorker = () =>
+  new Worker(new URL("./thumbnailWorker.worker.ts", import.meta.url));
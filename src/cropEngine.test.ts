@@ -0,0 +1,421 @@
+import {
+  canvasToBlob,
+  clampArea,
+  cropImage,
+  fitAreaToRatio,
+  getCanvasSizeError,
+  getLargestArea,
+  getPaddedArea,
+  normalizeRotation,
+  renderCrop,
+  resampleCanvas,
+  resizeArea,
+  rotateSize,
+  scaleToWidth,
+} from "./cropEngine";
+import { DEFAULT_ADJUSTMENTS } from "./imageAdjustments";
+
+const createSourceImage = (width: number, height: number) => {
+  const image = document.createElement("img");
+  Object.defineProperty(image, "naturalWidth", { value: width });
+  Object.defineProperty(image, "naturalHeight", { value: height });
+  return image;
+};
+
+const createMockContext = () => ({
+  fillStyle: "",
+  fillRect: jest.fn(),
+  scale: jest.fn(),
+  translate: jest.fn(),
+  rotate: jest.fn(),
+  drawImage: jest.fn(),
+  globalCompositeOperation: "source-over",
+  setTransform: jest.fn(),
+  beginPath: jest.fn(),
+  ellipse: jest.fn(),
+  fill: jest.fn(),
+  save: jest.fn(),
+  restore: jest.fn(),
+  getImageData: jest.fn(),
+  putImageData: jest.fn(),
+  imageSmoothingQuality: "low",
+});
+
+describe("geometry", () => {
+  test("rotateSize swaps dimensions at 90 degrees", () => {
+    const size = rotateSize(400, 300, 90);
+    expect(size.width).toBeCloseTo(300);
+    expect(size.height).toBeCloseTo(400);
+  });
+
+  test("rotateSize grows the bounding box at 45 degrees", () => {
+    const size = rotateSize(100, 100, 45);
+    expect(size.width).toBeCloseTo(141.42, 1);
+    expect(size.height).toBeCloseTo(141.42, 1);
+  });
+
+  test("normalizeRotation wraps into [-180, 180)", () => {
+    expect(normalizeRotation(270)).toBe(-90);
+    expect(normalizeRotation(-270)).toBe(90);
+    expect(normalizeRotation(180)).toBe(-180);
+    expect(normalizeRotation(45)).toBe(45);
+  });
+
+  test("fitAreaToRatio keeps the width when the height fits", () => {
+    const area = { x: 10, y: 20, width: 400, height: 100 };
+    expect(fitAreaToRatio(area, 2, { width: 800, height: 600 })).toEqual({
+      x: 10,
+      y: 20,
+      width: 400,
+      height: 200,
+    });
+  });
+
+  test("fitAreaToRatio shrinks the width when the height overflows", () => {
+    const area = { x: 0, y: 0, width: 800, height: 100 };
+    expect(fitAreaToRatio(area, 1, { width: 800, height: 600 })).toEqual({
+      x: 0,
+      y: 0,
+      width: 600,
+      height: 600,
+    });
+  });
+
+  test("resizeArea keeps the ratio for width and height edits", () => {
+    const area = { x: 0, y: 0, width: 100, height: 100 };
+    expect(resizeArea(area, "width", 320, 16 / 9)).toMatchObject({
+      width: 320,
+      height: 180,
+    });
+    expect(resizeArea(area, "height", 90, 16 / 9)).toMatchObject({
+      width: 160,
+      height: 90,
+    });
+  });
+
+  test("resizeArea leaves the other edge alone without a ratio", () => {
+    const area = { x: 0, y: 0, width: 100, height: 100 };
+    expect(resizeArea(area, "width", 250)).toEqual({
+      x: 0,
+      y: 0,
+      width: 250,
+      height: 100,
+    });
+    expect(resizeArea(area, "x", 40, 2)).toEqual({ ...area, x: 40 });
+  });
+
+  test("clampArea moves an area back inside the bounds", () => {
+    const bounds = { width: 500, height: 400 };
+    expect(
+      clampArea({ x: 450, y: -20, width: 100, height: 100 }, bounds)
+    ).toEqual({ x: 400, y: 0, width: 100, height: 100 });
+    expect(
+      clampArea({ x: -10, y: 350, width: 100, height: 100 }, bounds)
+    ).toEqual({ x: 0, y: 300, width: 100, height: 100 });
+  });
+
+  test("getLargestArea centres the area by default", () => {
+    expect(getLargestArea({ width: 1000, height: 500 }, 1)).toEqual({
+      x: 250,
+      y: 0,
+      width: 500,
+      height: 500,
+    });
+  });
+
+  test("getLargestArea honours the alignment", () => {
+    expect(
+      getLargestArea({ width: 1000, height: 500 }, 1, { x: 1, y: 0 })
+    ).toEqual({ x: 500, y: 0, width: 500, height: 500 });
+    expect(
+      getLargestArea({ width: 400, height: 800 }, 1, { x: 0, y: 1 })
+    ).toEqual({ x: 0, y: 400, width: 400, height: 400 });
+  });
+
+  test("getLargestArea selects the whole image without a ratio", () => {
+    expect(getLargestArea({ width: 640, height: 480 }, 0)).toEqual({
+      x: 0,
+      y: 0,
+      width: 640,
+      height: 480,
+    });
+  });
+
+  test("getPaddedArea grows the crop around the whole image", () => {
+    expect(getPaddedArea({ width: 300, height: 600 }, 16 / 9)).toEqual({
+      x: -383,
+      y: 0,
+      width: 1067,
+      height: 600,
+    });
+    expect(getPaddedArea({ width: 400, height: 100 }, 1)).toEqual({
+      x: 0,
+      y: -150,
+      width: 400,
+      height: 400,
+    });
+  });
+
+  test("scaleToWidth keeps the proportions of the area", () => {
+    expect(scaleToWidth({ x: 0, y: 0, width: 1600, height: 900 }, 800)).toEqual(
+      { width: 800, height: 450 }
+    );
+  });
+});
+
+describe("rendering", () => {
+  let context: ReturnType<typeof createMockContext>;
+  let toBlobResult: Blob | null;
+  const toBlobCalls: Array<[string | undefined, number | undefined]> = [];
+
+  beforeEach(() => {
+    context = createMockContext();
+    toBlobResult = new Blob(["cropped"], { type: "image/png" });
+    toBlobCalls.length = 0;
+
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockImplementation(() => context as unknown as CanvasRenderingContext2D);
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "toBlob")
+      .mockImplementation((callback, type, quality) => {
+        toBlobCalls.push([type, quality]);
+        callback(toBlobResult);
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("renders the crop area at source size", async () => {
+    const source = createSourceImage(800, 600);
+    const canvas = await renderCrop(source, {
+      x: 100,
+      y: 50,
+      width: 300,
+      height: 200,
+    });
+
+    expect(canvas.width).toBe(300);
+    expect(canvas.height).toBe(200);
+    expect(context.scale).toHaveBeenNthCalledWith(1, 1, 1);
+    expect(context.translate).toHaveBeenNthCalledWith(1, -100, -50);
+    expect(context.drawImage).toHaveBeenCalledWith(source, 0, 0);
+  });
+
+  test("scales the crop area to the requested output size", async () => {
+    const canvas = await renderCrop(
+      createSourceImage(800, 600),
+      { x: 0, y: 0, width: 400, height: 300 },
+      { output: { width: 200, height: 150 } }
+    );
+
+    expect(canvas.width).toBe(200);
+    expect(canvas.height).toBe(150);
+    expect(context.scale).toHaveBeenNthCalledWith(1, 1, 1);
+    expect(context.drawImage).toHaveBeenLastCalledWith(
+      expect.any(HTMLCanvasElement),
+      0,
+      0,
+      200,
+      150
+    );
+  });
+
+  test("resampleCanvas halves large reductions step by step", () => {
+    const source = document.createElement("canvas");
+    source.width = 1600;
+    source.height = 1200;
+
+    const result = resampleCanvas(source, 200, 150);
+
+    expect(result.width).toBe(200);
+    expect(result.height).toBe(150);
+    expect(
+      context.drawImage.mock.calls.map(([, , , width, height]) => [
+        width,
+        height,
+      ])
+    ).toEqual([
+      [800, 600],
+      [400, 300],
+      [200, 150],
+    ]);
+  });
+
+  test("resampleCanvas returns the source when the size already matches", () => {
+    const source = document.createElement("canvas");
+    source.width = 200;
+    source.height = 150;
+
+    expect(resampleCanvas(source, 200, 150)).toBe(source);
+    expect(context.drawImage).not.toHaveBeenCalled();
+  });
+
+  test("rotates and flips around the centre of the bounding box", async () => {
+    await renderCrop(
+      createSourceImage(400, 200),
+      { x: 0, y: 0, width: 200, height: 400 },
+      { transform: { rotation: 90, flipHorizontal: true, flipVertical: false } }
+    );
+
+    const [, centre] = context.translate.mock.calls;
+    expect(centre[0]).toBeCloseTo(100);
+    expect(centre[1]).toBeCloseTo(200);
+    expect(context.rotate).toHaveBeenCalledWith(Math.PI / 2);
+    expect(context.scale).toHaveBeenNthCalledWith(2, -1, 1);
+    expect(context.translate).toHaveBeenLastCalledWith(-200, -100);
+  });
+
+  test("fills the background only when requested", async () => {
+    const area = { x: 0, y: 0, width: 10, height: 10 };
+    await renderCrop(createSourceImage(10, 10), area);
+    expect(context.fillRect).not.toHaveBeenCalled();
+
+    await renderCrop(createSourceImage(10, 10), area, {
+      encoding: { background: "#ff0000" },
+    });
+    expect(context.fillStyle).toBe("#ff0000");
+    expect(context.fillRect).toHaveBeenCalledWith(0, 0, 10, 10);
+  });
+
+  test("cuts shaped crops out before filling the background", async () => {
+    await renderCrop(
+      createSourceImage(40, 40),
+      { x: 0, y: 0, width: 20, height: 10 },
+      { shape: { type: "ellipse" }, encoding: { background: "#ffffff" } }
+    );
+
+    expect(context.ellipse).toHaveBeenCalledWith(
+      10,
+      5,
+      10,
+      5,
+      0,
+      0,
+      2 * Math.PI
+    );
+    expect(context.fillRect).toHaveBeenCalledTimes(1);
+    expect(context.fill.mock.invocationCallOrder[0]).toBeLessThan(
+      context.fillRect.mock.invocationCallOrder[0]
+    );
+    expect(context.globalCompositeOperation).toBe("source-over");
+  });
+
+  test("stretches mask images over the output", async () => {
+    const mask = document.createElement("canvas");
+    await renderCrop(
+      createSourceImage(40, 40),
+      { x: 0, y: 0, width: 40, height: 40 },
+      { output: { width: 20, height: 10 }, shape: { type: "mask", mask } }
+    );
+
+    expect(context.drawImage).toHaveBeenLastCalledWith(mask, 0, 0, 20, 10);
+  });
+
+  test("pads the crop outside the image before drawing it", async () => {
+    const source = createSourceImage(100, 100);
+    const area = { x: -50, y: 0, width: 200, height: 100 };
+    await renderCrop(source, area, {
+      padding: { type: "color", color: "#000000" },
+    });
+    expect(context.fillRect).toHaveBeenCalledWith(-50, 0, 200, 100);
+    expect(context.fillRect.mock.invocationCallOrder[0]).toBeLessThan(
+      context.drawImage.mock.invocationCallOrder[0]
+    );
+
+    // One mirrored copy on each side, then the image itself
+    context.drawImage.mockClear();
+    await renderCrop(source, area, { padding: { type: "mirror" } });
+    expect(context.drawImage).toHaveBeenCalledTimes(3);
+    expect(context.scale).toHaveBeenCalledWith(-1, 1);
+  });
+
+  test("adjusts the output pixels before filling the background", async () => {
+    const pixels = {
+      data: new Uint8ClampedArray([100, 50, 25, 255]),
+      width: 1,
+      height: 1,
+    };
+    context.getImageData.mockReturnValue(pixels);
+
+    await renderCrop(
+      createSourceImage(10, 10),
+      { x: 0, y: 0, width: 10, height: 10 },
+      {
+        adjustments: { ...DEFAULT_ADJUSTMENTS, exposure: 1 },
+        encoding: { background: "#ffffff" },
+      }
+    );
+
+    expect(Array.from(pixels.data)).toEqual([200, 100, 50, 255]);
+    expect(context.putImageData).toHaveBeenCalledWith(pixels, 0, 0);
+    expect(context.putImageData.mock.invocationCallOrder[0]).toBeLessThan(
+      context.fillRect.mock.invocationCallOrder[0]
+    );
+  });
+
+  test("rejects an empty crop area", async () => {
+    await expect(
+      renderCrop(createSourceImage(10, 10), {
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 10,
+      })
+    ).rejects.toThrow("positive size");
+  });
+
+  test("rejects crops larger than a canvas can hold", async () => {
+    expect(getCanvasSizeError({ width: 16384, height: 16384 })).toBeNull();
+    expect(getCanvasSizeError({ width: 20000, height: 100 })).toContain(
+      "16384 px per side"
+    );
+
+    await expect(
+      renderCrop(
+        createSourceImage(100, 100),
+        { x: 0, y: 0, width: 100, height: 100 },
+        { output: { width: 100, height: 40000 } }
+      )
+    ).rejects.toThrow("100 × 40000 px");
+  });
+
+  test("rejects when no 2D context is available", async () => {
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockImplementation(() => null);
+
+    await expect(
+      renderCrop(createSourceImage(10, 10), {
+        x: 0,
+        y: 0,
+        width: 10,
+        height: 10,
+      })
+    ).rejects.toThrow("Canvas 2D context is not available");
+  });
+
+  test("cropImage encodes with the requested type and quality", async () => {
+    const blob = await cropImage(
+      createSourceImage(100, 100),
+      { x: 0, y: 0, width: 50, height: 50 },
+      { encoding: { type: "image/jpeg", quality: 0.8 } }
+    );
+
+    expect(blob).toBe(toBlobResult);
+    expect(toBlobCalls).toEqual([["image/jpeg", 0.8]]);
+  });
+
+  test("canvasToBlob defaults to PNG and rejects when encoding fails", async () => {
+    const canvas = document.createElement("canvas");
+    await canvasToBlob(canvas);
+    expect(toBlobCalls).toEqual([["image/png", undefined]]);
+
+    toBlobResult = null;
+    await expect(canvasToBlob(canvas)).rejects.toThrow(
+      "Failed to encode the cropped image"
+    );
+  });
+});
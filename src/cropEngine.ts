@@ -0,0 +1,626 @@
+// Framework-independent image cropping: geometry helpers plus a canvas
+// pipeline that turns a source image and a crop area into an encoded blob.
+// Nothing in here depends on React or on the rest of the app, and the
+// pipeline also runs in workers, where it draws on OffscreenCanvas.
+
+import { setImageDpi } from "./dpi";
+import { PreservedTags, writeJpegExif } from "./exif";
+import {
+  applyAdjustments,
+  ImageAdjustments,
+  isDefaultAdjustments,
+} from "./imageAdjustments";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Area {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export interface ImageTransform {
+  // Degrees, clockwise
+  rotation: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+export const DEFAULT_TRANSFORM: ImageTransform = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+export interface EncodeOptions {
+  // MIME type passed to canvas.toBlob, PNG when omitted
+  type?: string;
+  // 0-1, only honoured by lossy types
+  quality?: number;
+  // Fill drawn behind the image, e.g. for types without alpha
+  background?: string;
+  // Print resolution recorded in PNG and JPEG output
+  dpi?: number;
+  // EXIF tags written into JPEG output; everything else is stripped
+  metadata?: PreservedTags;
+}
+
+export type CropSource =
+  | string
+  | Blob
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | OffscreenCanvas
+  | ImageBitmap;
+
+// A DOM canvas on the page, an OffscreenCanvas in workers
+export type CropCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+type CropContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// TypeScript's DOM types do not declare convertToBlob yet
+declare global {
+  interface OffscreenCanvas {
+    convertToBlob(options?: { type?: string; quality?: number }): Promise<Blob>;
+  }
+}
+
+// Outline the output is cut to; pixels outside it become transparent
+export type CropShape =
+  | { type: "ellipse" }
+  // Corner radius as a fraction of the shorter side, at most 0.5
+  | { type: "rounded"; radius: number }
+  // Keeps what lies under the opaque parts of the mask, stretched to the output
+  | { type: "mask"; mask: CropSource };
+
+// Fill for the parts of the crop area outside the image
+export type CropPadding =
+  | { type: "transparent" }
+  | { type: "color"; color: string }
+  // The image reflected across its edges
+  | { type: "mirror" }
+  // A blurred copy of the image enlarged to cover the crop
+  | { type: "blur" };
+
+export interface CropOptions {
+  // Scale the cropped area to this size instead of keeping source pixels
+  output?: Dimensions;
+  transform?: ImageTransform;
+  // Transparent when omitted
+  padding?: CropPadding;
+  // Color and sharpness changes, applied to the output pixels
+  adjustments?: ImageAdjustments;
+  // Rectangular when omitted
+  shape?: CropShape;
+  encoding?: EncodeOptions;
+}
+
+/* Geometry */
+
+export const getRadianAngle = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Keeps rotation within [-180, 180)
+export const normalizeRotation = (degrees: number) =>
+  ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+// Size of the bounding box of a rectangle rotated by `rotation` degrees
+export const rotateSize = (
+  width: number,
+  height: number,
+  rotation: number
+): Dimensions => {
+  const radians = getRadianAngle(rotation);
+  return {
+    width:
+      Math.abs(Math.cos(radians) * width) +
+      Math.abs(Math.sin(radians) * height),
+    height:
+      Math.abs(Math.sin(radians) * width) +
+      Math.abs(Math.cos(radians) * height),
+  };
+};
+
+// Reshapes an area to `ratio` (width / height), keeping its position and
+// width unless the resulting height would not fit in `bounds`
+export const fitAreaToRatio = (
+  area: Area,
+  ratio: number,
+  bounds: Dimensions
+): Area => {
+  let width = area.width;
+  let height = width / ratio;
+
+  if (height > bounds.height) {
+    height = bounds.height;
+    width = height * ratio;
+  }
+  if (width > bounds.width) {
+    width = bounds.width;
+    height = width / ratio;
+  }
+
+  return { ...area, width, height };
+};
+
+// Sets one edge of an area and, when a ratio is given, adjusts the other
+// dimension to keep it
+export const resizeArea = (
+  area: Area,
+  property: keyof Area,
+  value: number,
+  ratio?: number
+): Area => {
+  const resized = { ...area, [property]: value };
+  if (ratio && ratio > 0) {
+    if (property === "width") resized.height = value / ratio;
+    else if (property === "height") resized.width = value * ratio;
+  }
+  return resized;
+};
+
+// Moves an area back inside `bounds` without changing its size
+export const clampArea = (area: Area, bounds: Dimensions): Area => {
+  const clamped = { ...area };
+  if (clamped.x + clamped.width > bounds.width) {
+    clamped.x = bounds.width - clamped.width;
+  }
+  if (clamped.y + clamped.height > bounds.height) {
+    clamped.y = bounds.height - clamped.height;
+  }
+  if (clamped.x < 0) clamped.x = 0;
+  if (clamped.y < 0) clamped.y = 0;
+  return clamped;
+};
+
+// Largest area with `ratio` that fits `bounds`. `alignment` places it in the
+// leftover space: 0 is left/top, 0.5 centred, 1 right/bottom. A ratio of 0 or
+// less selects the whole image.
+export const getLargestArea = (
+  bounds: Dimensions,
+  ratio: number,
+  alignment: Point = { x: 0.5, y: 0.5 }
+): Area => {
+  if (ratio <= 0) return { x: 0, y: 0, ...bounds };
+
+  const { width, height } = fitAreaToRatio(
+    { x: 0, y: 0, ...bounds },
+    ratio,
+    bounds
+  );
+
+  return {
+    x: Math.round((bounds.width - width) * alignment.x),
+    y: Math.round((bounds.height - height) * alignment.y),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+};
+
+// Smallest area with `ratio` that holds all of `bounds`, centred on it: the
+// crop that pads the image out to the ratio instead of cutting it
+export const getPaddedArea = (bounds: Dimensions, ratio: number): Area => {
+  if (ratio <= 0) return { x: 0, y: 0, ...bounds };
+  const width = Math.round(Math.max(bounds.width, bounds.height * ratio));
+  const height = Math.round(Math.max(bounds.height, bounds.width / ratio));
+  return {
+    x: Math.round((bounds.width - width) / 2),
+    y: Math.round((bounds.height - height) / 2),
+    width,
+    height,
+  };
+};
+
+// Output size for an area scaled to `width`, keeping its proportions
+export const scaleToWidth = (area: Area, width: number): Dimensions => ({
+  width,
+  height: Math.max(1, Math.round((width * area.height) / area.width)),
+});
+
+// Largest canvas current desktop browsers will draw; bigger ones silently
+// produce empty output
+export const MAX_CANVAS_SIDE = 16384;
+export const MAX_CANVAS_AREA = 16384 * 16384;
+
+// Why a canvas of this size cannot be drawn, or null when it fits
+export const getCanvasSizeError = ({
+  width,
+  height,
+}: Dimensions): string | null => {
+  const w = Math.round(width);
+  const h = Math.round(height);
+  if (w > MAX_CANVAS_SIDE || h > MAX_CANVAS_SIDE) {
+    return `${w} × ${h} px is larger than the ${MAX_CANVAS_SIDE} px per side a browser canvas allows`;
+  }
+  if (w * h > MAX_CANVAS_AREA) {
+    return `${w} × ${h} px is more pixels than a browser canvas allows`;
+  }
+  return null;
+};
+
+// Throws a readable error for crops that cannot be rendered
+export const assertCropSize = (area: Area, output?: Dimensions) => {
+  if (area.width <= 0 || area.height <= 0) {
+    throw new Error("Crop area must have a positive size");
+  }
+  const sizeError =
+    getCanvasSizeError(area) ?? (output && getCanvasSizeError(output));
+  if (sizeError) throw new Error(sizeError);
+};
+
+/* Rendering */
+
+const isOffscreen = (canvas: CropSource): canvas is OffscreenCanvas =>
+  typeof OffscreenCanvas !== "undefined" && canvas instanceof OffscreenCanvas;
+
+export const getContext = (canvas: CropCanvas): CropContext => {
+  const ctx = isOffscreen(canvas)
+    ? (canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | null)
+    : canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return ctx;
+};
+
+export const createCanvas = (width: number, height: number) => {
+  // Workers have no document
+  const canvas: CropCanvas =
+    typeof document === "undefined"
+      ? new OffscreenCanvas(1, 1)
+      : document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return { canvas, ctx: getContext(canvas) };
+};
+
+// Applies the EXIF orientation when decoding files with createImageBitmap;
+// TypeScript's DOM types only list the older values of this option
+export const DECODE_OPTIONS = {
+  imageOrientation: "from-image",
+} as unknown as ImageBitmapOptions;
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The image could not be decoded"));
+    image.src = url;
+  });
+
+interface ResolvedSource {
+  image: CanvasImageSource;
+  size: Dimensions;
+}
+
+const resolveSource = async (source: CropSource): Promise<ResolvedSource> => {
+  if (typeof source === "string") {
+    const image = await loadImage(source);
+    return {
+      image,
+      size: { width: image.naturalWidth, height: image.naturalHeight },
+    };
+  }
+  if (source instanceof Blob) {
+    const url = URL.createObjectURL(source);
+    try {
+      return await resolveSource(await loadImage(url));
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  if (
+    typeof HTMLImageElement !== "undefined" &&
+    source instanceof HTMLImageElement
+  ) {
+    return {
+      image: source,
+      size: { width: source.naturalWidth, height: source.naturalHeight },
+    };
+  }
+  return {
+    image: source,
+    size: { width: source.width, height: source.height },
+  };
+};
+
+// Scales a canvas to the given size. Large reductions are done in halving
+// steps so every pass averages neighbouring pixels instead of skipping them,
+// which avoids the aliasing of a single drawImage.
+export const resampleCanvas = (
+  source: CropCanvas,
+  width: number,
+  height: number
+): CropCanvas => {
+  let current = source;
+
+  while (current.width > width * 2 || current.height > height * 2) {
+    const step = createCanvas(
+      Math.max(width, current.width / 2),
+      Math.max(height, current.height / 2)
+    );
+    step.ctx.imageSmoothingQuality = "high";
+    step.ctx.drawImage(current, 0, 0, step.canvas.width, step.canvas.height);
+    current = step.canvas;
+  }
+
+  if (current.width === width && current.height === height) return current;
+
+  const result = createCanvas(width, height);
+  result.ctx.imageSmoothingQuality = "high";
+  result.ctx.drawImage(
+    current,
+    0,
+    0,
+    result.canvas.width,
+    result.canvas.height
+  );
+  return result.canvas;
+};
+
+// Draws the image rotated and flipped into its bounding box at the origin
+const drawTransformed = (
+  ctx: CropContext,
+  image: CanvasImageSource,
+  size: Dimensions,
+  transform: ImageTransform
+) => {
+  const bBox = rotateSize(size.width, size.height, transform.rotation);
+  ctx.translate(bBox.width / 2, bBox.height / 2);
+  ctx.rotate(getRadianAngle(transform.rotation));
+  ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+  ctx.translate(-size.width / 2, -size.height / 2);
+  ctx.drawImage(image, 0, 0);
+};
+
+// Longest side the blurred copy is shrunk to. Fixed rather than scaled with
+// the output, so previews and full-size exports blur alike.
+const BLUR_SIZE = 48;
+// Tiles drawn in each direction at most for mirrored padding
+const MAX_MIRROR_TILES = 8;
+
+// Fills the crop area around the image, in the coordinates of the rotated
+// image's bounding box
+const drawPadding = (
+  ctx: CropContext,
+  padding: CropPadding,
+  image: CanvasImageSource,
+  size: Dimensions,
+  transform: ImageTransform,
+  area: Area
+) => {
+  const bBox = rotateSize(size.width, size.height, transform.rotation);
+  ctx.save();
+  if (padding.type === "color") {
+    ctx.fillStyle = padding.color;
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+  } else if (padding.type === "mirror") {
+    // Every other tile is flipped so neighbouring copies meet edge to edge
+    const tiles = (start: number, length: number, tile: number) => {
+      const first = Math.max(-MAX_MIRROR_TILES, Math.floor(start / tile));
+      const last = Math.min(
+        MAX_MIRROR_TILES,
+        Math.ceil((start + length) / tile) - 1
+      );
+      const indices = [];
+      for (let index = first; index <= last; index++) indices.push(index);
+      return indices;
+    };
+    tiles(area.x, area.width, bBox.width).forEach((column) =>
+      tiles(area.y, area.height, bBox.height).forEach((row) => {
+        if (column === 0 && row === 0) return;
+        const flipX = column % 2 !== 0;
+        const flipY = row % 2 !== 0;
+        ctx.save();
+        ctx.translate(
+          (column + (flipX ? 1 : 0)) * bBox.width,
+          (row + (flipY ? 1 : 0)) * bBox.height
+        );
+        ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+        drawTransformed(ctx, image, size, transform);
+        ctx.restore();
+      })
+    );
+  } else if (padding.type === "blur") {
+    // Shrinking the copy and stretching it back blurs it everywhere canvas
+    // runs, unlike the filter property
+    const scale = Math.max(area.width / bBox.width, area.height / bBox.height);
+    const fit = (BLUR_SIZE * 4) / Math.max(area.width, area.height);
+    const cover = createCanvas(area.width * fit, area.height * fit);
+    cover.ctx.scale(
+      cover.canvas.width / area.width,
+      cover.canvas.height / area.height
+    );
+    cover.ctx.translate(area.width / 2, area.height / 2);
+    cover.ctx.scale(scale, scale);
+    cover.ctx.translate(-bBox.width / 2, -bBox.height / 2);
+    drawTransformed(cover.ctx, image, size, transform);
+    const blurred = resampleCanvas(
+      cover.canvas,
+      Math.max(1, Math.round(cover.canvas.width / 4)),
+      Math.max(1, Math.round(cover.canvas.height / 4))
+    );
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(blurred, area.x, area.y, area.width, area.height);
+  }
+  ctx.restore();
+};
+
+// Adds the outline of an ellipse or rounded rectangle filling the canvas to
+// the current path
+const traceShape = (
+  ctx: CropContext,
+  shape: Exclude<CropShape, { type: "mask" }>,
+  width: number,
+  height: number
+) => {
+  if (shape.type === "ellipse") {
+    ctx.ellipse(
+      width / 2,
+      height / 2,
+      width / 2,
+      height / 2,
+      0,
+      0,
+      2 * Math.PI
+    );
+    return;
+  }
+  const radius =
+    Math.min(Math.max(shape.radius, 0), 0.5) * Math.min(width, height);
+  ctx.moveTo(radius, 0);
+  ctx.arcTo(width, 0, width, height, radius);
+  ctx.arcTo(width, height, 0, height, radius);
+  ctx.arcTo(0, height, 0, 0, radius);
+  ctx.arcTo(0, 0, width, 0, radius);
+  ctx.closePath();
+};
+
+const adjustCanvas = (canvas: CropCanvas, adjustments: ImageAdjustments) => {
+  const ctx = getContext(canvas);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyAdjustments(pixels, adjustments);
+  ctx.putImageData(pixels, 0, 0);
+};
+
+// Clears everything outside the shape
+const cutToShape = async (canvas: CropCanvas, shape: CropShape) => {
+  const ctx = getContext(canvas);
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = "destination-in";
+  if (shape.type === "mask") {
+    const { image } = await resolveSource(shape.mask);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  } else {
+    ctx.beginPath();
+    traceShape(ctx, shape, canvas.width, canvas.height);
+    ctx.fill();
+  }
+  ctx.globalCompositeOperation = "source-over";
+};
+
+// Fills the transparent pixels of a finished canvas
+const fillBehind = (canvas: CropCanvas, color: string) => {
+  const ctx = getContext(canvas);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = "source-over";
+};
+
+// Draws a mask stretched to `size`, for consumers that cannot decode it
+// themselves, such as workers given an SVG
+export const rasterizeMask = async (
+  mask: CropSource,
+  { width, height }: Dimensions
+): Promise<CropCanvas> => {
+  const { image } = await resolveSource(mask);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Draws `area` of the rotated and flipped source onto a new canvas and scales
+// it to `output`. `area` is expressed in the coordinates of the rotated
+// image's bounding box, which is what react-easy-crop reports.
+export const renderCrop = async (
+  source: CropSource,
+  area: Area,
+  {
+    output,
+    transform = DEFAULT_TRANSFORM,
+    padding,
+    shape,
+    adjustments,
+    encoding,
+  }: CropOptions = {}
+): Promise<CropCanvas> => {
+  assertCropSize(area, output);
+
+  const { image, size } = await resolveSource(source);
+  const { canvas, ctx } = createCanvas(area.width, area.height);
+
+  // Shaped and adjusted crops are filled once their pixels are final, so the
+  // background keeps its exact color
+  const isAdjusted = !isDefaultAdjustments(adjustments);
+  const fillsLater = !!shape || isAdjusted;
+  if (encoding?.background && !fillsLater) {
+    ctx.fillStyle = encoding.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  // Map the crop area onto the canvas, then draw the image rotated and
+  // flipped around the centre of its bounding box
+  ctx.scale(canvas.width / area.width, canvas.height / area.height);
+  ctx.translate(-area.x, -area.y);
+  if (padding) drawPadding(ctx, padding, image, size, transform, area);
+  drawTransformed(ctx, image, size, transform);
+
+  const result = output
+    ? resampleCanvas(
+        canvas,
+        Math.max(1, Math.round(output.width)),
+        Math.max(1, Math.round(output.height))
+      )
+    : canvas;
+  if (adjustments && isAdjusted) adjustCanvas(result, adjustments);
+  if (shape) await cutToShape(result, shape);
+  if (encoding?.background && fillsLater) {
+    fillBehind(result, encoding.background);
+  }
+  return result;
+};
+
+export const canvasToBlob = (
+  canvas: CropCanvas,
+  { type = "image/png", quality }: EncodeOptions = {}
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    if (isOffscreen(canvas)) {
+      canvas
+        .convertToBlob({ type, quality })
+        .then(resolve, () =>
+          reject(new Error("Failed to encode the cropped image"))
+        );
+      return;
+    }
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("Failed to encode the cropped image"));
+      },
+      type,
+      quality
+    );
+  });
+
+// Writes the resolution and EXIF tags of `encoding` into an encoded image
+export const writeImageMetadata = async (
+  blob: Blob,
+  encoding?: EncodeOptions
+): Promise<Blob> => {
+  if (encoding?.dpi) blob = await setImageDpi(blob, encoding.dpi);
+  if (encoding?.metadata) blob = await writeJpegExif(blob, encoding.metadata);
+  return blob;
+};
+
+export const cropImage = async (
+  source: CropSource,
+  area: Area,
+  options: CropOptions = {}
+): Promise<Blob> => {
+  const { encoding } = options;
+  const blob = await canvasToBlob(
+    await renderCrop(source, area, options),
+    encoding
+  );
+  return writeImageMetadata(blob, encoding);
+};
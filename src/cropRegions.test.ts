@@ -0,0 +1,100 @@
+import {
+  getNextRegionName,
+  getRegionCropOptions,
+  getRegionFileName,
+  slugifyRegionName,
+  toCropperArea,
+} from "./cropRegions";
+import { DEFAULT_TRANSFORM } from "./cropEngine";
+import { DEFAULT_EXPORT_SETTINGS } from "./exportSettings";
+import { DEFAULT_ADJUSTMENTS } from "./imageAdjustments";
+import { DEFAULT_OUTPUT_SETTINGS } from "./outputSize";
+import { CropRegion } from "./types";
+
+const region = (name: string): CropRegion => ({
+  id: name,
+  name,
+  area: { x: 0, y: 0, width: 100, height: 100 },
+  aspectRatio: 1,
+  zoom: 1,
+  transform: DEFAULT_TRANSFORM,
+  outputSettings: DEFAULT_OUTPUT_SETTINGS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+});
+
+test("getNextRegionName skips names already in use", () => {
+  expect(getNextRegionName([])).toBe("Region 1");
+  expect(getNextRegionName([region("Hero")])).toBe("Region 2");
+  expect(getNextRegionName([region("Hero"), region("Region 3")])).toBe(
+    "Region 4"
+  );
+});
+
+test("slugifyRegionName keeps names safe for file names", () => {
+  expect(slugifyRegionName("Story / Portrait 9:16")).toBe(
+    "story-portrait-9-16"
+  );
+  expect(slugifyRegionName("  ")).toBe("region");
+});
+
+test("getRegionFileName adds the region to the download name", () => {
+  expect(getRegionFileName("cropped-beach.jpg", "Hero Banner")).toBe(
+    "cropped-beach-hero-banner.jpg"
+  );
+  expect(getRegionFileName("scan", "Square")).toBe("scan-square");
+});
+
+test("toCropperArea maps image pixels to the cropper view", () => {
+  const bounds = { width: 1000, height: 500 };
+  // Shown at half size, centred
+  expect(
+    toCropperArea(
+      { x: 0, y: 0, width: 1000, height: 500 },
+      bounds,
+      { x: 0, y: 0 },
+      0.5
+    )
+  ).toEqual({ x: -250, y: -125, width: 500, height: 250 });
+  // Full size, panned right by 20px
+  expect(
+    toCropperArea(
+      { x: 500, y: 250, width: 100, height: 50 },
+      bounds,
+      { x: 20, y: 0 },
+      1
+    )
+  ).toEqual({ x: 20, y: 0, width: 100, height: 50 });
+});
+
+test("getRegionCropOptions exports a region with its shape, padding and adjustments", () => {
+  const adjustments = { ...DEFAULT_ADJUSTMENTS, contrast: 20 };
+  const options = getRegionCropOptions({
+    ...region("Hero"),
+    transform: { rotation: 90, flipHorizontal: false, flipVertical: true },
+    outputSettings: {
+      ...DEFAULT_OUTPUT_SETTINGS,
+      mode: "percent",
+      percent: 50,
+    },
+    shape: { type: "rounded", radius: 20, mask: null },
+    padding: { type: "color", color: "#ff0000" },
+    adjustments,
+  });
+
+  expect(options).toMatchObject({
+    output: { width: 50, height: 50 },
+    transform: { rotation: 90, flipVertical: true },
+    padding: { type: "color", color: "#ff0000" },
+    shape: { type: "rounded", radius: 0.2 },
+    adjustments,
+  });
+});
+
+test("getRegionCropOptions keeps older regions rectangular and unpadded", () => {
+  const options = getRegionCropOptions(region("Hero"));
+
+  expect(options.shape).toBeUndefined();
+  expect(options.padding).toBeUndefined();
+  expect(options.adjustments).toBeUndefined();
+  expect(options.encoding).toMatchObject({ type: "image/png" });
+});
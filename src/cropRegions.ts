@@ -0,0 +1,65 @@
+// Helpers for the named crop regions kept on an image, so one photo can
+// produce e.g. a banner, a square thumbnail and a portrait crop in one export.
+
+import { Area, CropOptions, Dimensions, Point } from "./cropEngine";
+import { toCropShape } from "./cropShape";
+import { ExifData } from "./exif";
+import { toEncodeOptions } from "./exportSettings";
+import { getOutputDpi, resolveOutputSize } from "./outputSize";
+import { CropRegion } from "./types";
+
+// First free "Region N" name
+export const getNextRegionName = (regions: CropRegion[]) => {
+  const names = new Set(regions.map((region) => region.name));
+  let counter = regions.length + 1;
+  while (names.has(`Region ${counter}`)) counter++;
+  return `Region ${counter}`;
+};
+
+// Lowercase, dash-separated form of a region name for use in file names
+export const slugifyRegionName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "region";
+
+// Adds the region to a download name, e.g. "beach-hero.jpg" for the "Hero"
+// region when the image itself would be saved as "beach.jpg"
+export const getRegionFileName = (fileName: string, regionName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const ext = dot > 0 ? fileName.slice(dot) : "";
+  return `${base}-${slugifyRegionName(regionName)}${ext}`;
+};
+
+// Export options for a region, made from its own settings the way the
+// cropper makes them for a single crop
+export const getRegionCropOptions = (
+  region: CropRegion,
+  exif?: ExifData | null
+): CropOptions => ({
+  output: resolveOutputSize(region.outputSettings, region.area),
+  transform: region.transform,
+  padding: region.padding,
+  shape: toCropShape(region.shape),
+  adjustments: region.adjustments,
+  encoding: {
+    ...toEncodeOptions(region.exportSettings, exif),
+    dpi: getOutputDpi(region.outputSettings),
+  },
+});
+
+// Where an area of the rotated image appears in react-easy-crop, relative to
+// the centre of the cropper. `scale` is the zoom times the displayed size of
+// the image over its natural size.
+export const toCropperArea = (
+  area: Area,
+  bounds: Dimensions,
+  crop: Point,
+  scale: number
+): Area => ({
+  x: crop.x + (area.x - bounds.width / 2) * scale,
+  y: crop.y + (area.y - bounds.height / 2) * scale,
+  width: area.width * scale,
+  height: area.height * scale,
+});
@@ -0,0 +1,29 @@
+import { DEFAULT_CROP_SHAPE, isShapeFilled, toCropShape } from "./cropShape";
+
+test("toCropShape maps the settings to a crop engine shape", () => {
+  expect(toCropShape(DEFAULT_CROP_SHAPE)).toBeUndefined();
+  expect(toCropShape(undefined)).toBeUndefined();
+  expect(toCropShape({ ...DEFAULT_CROP_SHAPE, type: "ellipse" })).toEqual({
+    type: "ellipse",
+  });
+  expect(
+    toCropShape({ ...DEFAULT_CROP_SHAPE, type: "rounded", radius: 25 })
+  ).toEqual({ type: "rounded", radius: 0.25 });
+  expect(
+    toCropShape({ ...DEFAULT_CROP_SHAPE, type: "rounded", radius: 0 })
+  ).toBeUndefined();
+
+  const mask = new Blob(["<svg/>"], { type: "image/svg+xml" });
+  expect(toCropShape({ ...DEFAULT_CROP_SHAPE, type: "mask" })).toBeUndefined();
+  expect(toCropShape({ ...DEFAULT_CROP_SHAPE, type: "mask", mask })).toEqual({
+    type: "mask",
+    mask,
+  });
+});
+
+test("isShapeFilled warns about shaped crops in formats without alpha", () => {
+  const circle = { ...DEFAULT_CROP_SHAPE, type: "ellipse" as const };
+  expect(isShapeFilled(circle, "image/jpeg")).toBe(true);
+  expect(isShapeFilled(circle, "image/png")).toBe(false);
+  expect(isShapeFilled(DEFAULT_CROP_SHAPE, "image/jpeg")).toBe(false);
+});
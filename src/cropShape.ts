@@ -0,0 +1,57 @@
+// Crop shape as chosen in the cropper: what the crop engine cuts the export
+// to, and how react-easy-crop previews it.
+
+import { CropShape } from "./cropEngine";
+import { ExportFormat, getFormatInfo } from "./exportSettings";
+
+export type CropShapeType = "rectangle" | "ellipse" | "rounded" | "mask";
+
+export interface CropShapeSettings {
+  type: CropShapeType;
+  // Corner radius in percent of the shorter side, 0-50
+  radius: number;
+  // PNG or SVG whose opaque parts are kept
+  mask: Blob | null;
+  maskName?: string;
+}
+
+export const CropShapeTypes: { value: CropShapeType; label: string }[] = [
+  { value: "rectangle", label: "Rectangle" },
+  { value: "ellipse", label: "Circle / ellipse" },
+  { value: "rounded", label: "Rounded rectangle" },
+  { value: "mask", label: "Custom mask" },
+];
+
+export const DEFAULT_CROP_SHAPE: CropShapeSettings = {
+  type: "rectangle",
+  radius: 10,
+  mask: null,
+};
+
+export const MASK_TYPES = ["image/png", "image/svg+xml"];
+
+// Shape for the crop engine; undefined exports a plain rectangle, which is
+// also what a mask shape without a mask file does
+export const toCropShape = (
+  settings?: CropShapeSettings
+): CropShape | undefined => {
+  switch (settings?.type) {
+    case "ellipse":
+      return { type: "ellipse" };
+    case "rounded":
+      return settings.radius > 0
+        ? { type: "rounded", radius: settings.radius / 100 }
+        : undefined;
+    case "mask":
+      return settings.mask ? { type: "mask", mask: settings.mask } : undefined;
+    default:
+      return undefined;
+  }
+};
+
+// Whether the corners cut off by the shape get filled with the background
+// color because the format has no transparency
+export const isShapeFilled = (
+  settings: CropShapeSettings,
+  format: ExportFormat
+) => !!toCropShape(settings) && !getFormatInfo(format).alpha;
@@ -0,0 +1,83 @@
+import { getShortcutAction, isOwnKeyTarget } from "./cropShortcuts";
+
+const key = (value: string, modifiers: Partial<KeyboardEventInit> = {}) => ({
+  key: value,
+  shiftKey: false,
+  altKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  ...modifiers,
+});
+
+test("arrows nudge the crop, with larger steps on Shift", () => {
+  expect(getShortcutAction(key("ArrowRight"))).toEqual({
+    type: "nudge",
+    dx: 1,
+    dy: 0,
+  });
+  expect(getShortcutAction(key("ArrowUp", { shiftKey: true }))).toEqual({
+    type: "nudge",
+    dx: 0,
+    dy: -10,
+  });
+});
+
+test("Alt and the arrows resize the crop", () => {
+  expect(getShortcutAction(key("ArrowDown", { altKey: true }))).toEqual({
+    type: "resize",
+    dw: 0,
+    dh: 1,
+  });
+  expect(
+    getShortcutAction(key("ArrowLeft", { altKey: true, shiftKey: true }))
+  ).toEqual({ type: "resize", dw: -10, dh: 0 });
+});
+
+test("other keys map to zoom, presets, crop and navigation", () => {
+  expect(getShortcutAction(key("+"))).toEqual({ type: "zoom", delta: 0.1 });
+  expect(getShortcutAction(key("-"))).toEqual({ type: "zoom", delta: -0.1 });
+  expect(getShortcutAction(key("3"))).toEqual({ type: "aspect", index: 2 });
+  expect(getShortcutAction(key("9"))).toBeNull();
+  expect(getShortcutAction(key("Enter"))).toEqual({ type: "crop" });
+  expect(getShortcutAction(key("]"))).toEqual({
+    type: "navigate",
+    direction: 1,
+  });
+  expect(getShortcutAction(key("PageUp"))).toEqual({
+    type: "navigate",
+    direction: -1,
+  });
+  expect(getShortcutAction(key("?"))).toEqual({ type: "help" });
+});
+
+test("Ctrl+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes", () => {
+  expect(getShortcutAction(key("z", { ctrlKey: true }))).toEqual({
+    type: "undo",
+  });
+  expect(
+    getShortcutAction(key("Z", { metaKey: true, shiftKey: true }))
+  ).toEqual({ type: "redo" });
+  expect(getShortcutAction(key("y", { ctrlKey: true }))).toEqual({
+    type: "redo",
+  });
+});
+
+test("browser shortcuts are left alone", () => {
+  expect(getShortcutAction(key("ArrowLeft", { ctrlKey: true }))).toBeNull();
+  expect(getShortcutAction(key("+", { metaKey: true }))).toBeNull();
+  expect(getShortcutAction(key("x"))).toBeNull();
+});
+
+test("isOwnKeyTarget leaves fields, sliders and buttons their keys", () => {
+  const input = document.createElement("input");
+  const slider = document.createElement("div");
+  slider.setAttribute("role", "slider");
+  const button = document.createElement("button");
+
+  expect(isOwnKeyTarget(input, "ArrowLeft")).toBe(true);
+  expect(isOwnKeyTarget(slider, "ArrowLeft")).toBe(true);
+  expect(isOwnKeyTarget(slider, "Enter")).toBe(false);
+  expect(isOwnKeyTarget(button, "Enter")).toBe(true);
+  expect(isOwnKeyTarget(button, "ArrowLeft")).toBe(false);
+  expect(isOwnKeyTarget(document.createElement("div"), "Enter")).toBe(false);
+});
@@ -0,0 +1,114 @@
+// Keyboard shortcuts for the crop modal. Keys are mapped to actions here so
+// the mapping can be tested and listed in the help overlay; App applies them.
+
+import { AspectRatioOptions } from "./types";
+
+export type CropShortcutAction =
+  // Move the crop by whole steps
+  | { type: "nudge"; dx: number; dy: number }
+  // Grow or shrink the crop by whole steps
+  | { type: "resize"; dw: number; dh: number }
+  | { type: "zoom"; delta: number }
+  // Index into AspectRatioOptions
+  | { type: "aspect"; index: number }
+  | { type: "crop" }
+  | { type: "navigate"; direction: 1 | -1 }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "help" };
+
+export interface ShortcutKeyEvent {
+  key: string;
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+const LARGE_STEP = 10;
+const ZOOM_STEP = 0.1;
+
+const ARROWS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+export const getShortcutAction = (
+  event: ShortcutKeyEvent
+): CropShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey) {
+    const key = event.key.toLowerCase();
+    if (key === "z") return { type: event.shiftKey ? "redo" : "undo" };
+    if (key === "y") return { type: "redo" };
+    // Leave other browser and OS shortcuts alone
+    return null;
+  }
+
+  const arrow = ARROWS[event.key];
+  if (arrow) {
+    const step = event.shiftKey ? LARGE_STEP : 1;
+    const [x, y] = arrow;
+    return event.altKey
+      ? { type: "resize", dw: x * step, dh: y * step }
+      : { type: "nudge", dx: x * step, dy: y * step };
+  }
+  if (event.altKey) return null;
+
+  switch (event.key) {
+    case "+":
+    case "=":
+      return { type: "zoom", delta: ZOOM_STEP };
+    case "-":
+    case "_":
+      return { type: "zoom", delta: -ZOOM_STEP };
+    case "Enter":
+      return { type: "crop" };
+    case "]":
+    case "PageDown":
+      return { type: "navigate", direction: 1 };
+    case "[":
+    case "PageUp":
+      return { type: "navigate", direction: -1 };
+    case "?":
+      return { type: "help" };
+  }
+
+  const number = Number(event.key);
+  if (Number.isInteger(number) && number >= 1) {
+    return number <= AspectRatioOptions.length
+      ? { type: "aspect", index: number - 1 }
+      : null;
+  }
+  return null;
+};
+
+export const CropShortcuts: { keys: string; description: string }[] = [
+  { keys: "← ↑ → ↓", description: "Move the crop" },
+  { keys: "Alt + arrows", description: "Resize the crop" },
+  { keys: "Shift + arrows", description: "Move or resize in larger steps" },
+  { keys: "+ / −", description: "Zoom in or out" },
+  {
+    keys: `1 – ${AspectRatioOptions.length}`,
+    description: `Aspect ratio: ${AspectRatioOptions.map(
+      (option) => option.label
+    ).join(", ")}`,
+  },
+  { keys: "Ctrl + Z", description: "Undo" },
+  { keys: "Ctrl + Shift + Z", description: "Redo" },
+  { keys: "Enter", description: "Crop & download" },
+  { keys: "[ / ]", description: "Previous or next image" },
+  { keys: "?", description: "Show or hide these shortcuts" },
+  { keys: "Esc", description: "Close the cropper" },
+];
+
+// Whether the focused element needs `key` for itself, e.g. typing into a
+// field, moving a slider or pressing a button with Enter
+export const isOwnKeyTarget = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  if (target.getAttribute("role") === "slider") return key in ARROWS;
+  return key === "Enter" && ["BUTTON", "A"].includes(target.tagName);
+};
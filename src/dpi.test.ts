@@ -0,0 +1,93 @@
+import { crc32, setJpegDpi, setPngDpi } from "./dpi";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const createChunk = (type: string, data: number[] = []) => {
+  const typeBytes = Array.from(type).map((char) => char.charCodeAt(0));
+  const crc = crc32(new Uint8Array([...typeBytes, ...data]));
+  return [...toUint32(data.length), ...typeBytes, ...data, ...toUint32(crc)];
+};
+
+const toUint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const readChunkTypes = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer);
+  const types: string[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    types.push(
+      String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)))
+    );
+    offset += length + 12;
+  }
+  return types;
+};
+
+test("crc32 matches the reference value", () => {
+  const bytes = new Uint8Array(
+    Array.from("123456789").map((char) => char.charCodeAt(0))
+  );
+  expect(crc32(bytes)).toBe(0xcbf43926);
+});
+
+test("setPngDpi adds a pHYs chunk after the header", () => {
+  const png = new Uint8Array([
+    ...PNG_SIGNATURE,
+    ...createChunk("IHDR", new Array(13).fill(0)),
+    ...createChunk("IEND"),
+  ]);
+
+  const result = setPngDpi(png, 300);
+  const view = new DataView(result.buffer);
+  const physOffset = 8 + 25;
+
+  expect(readChunkTypes(result)).toEqual(["IHDR", "pHYs", "IEND"]);
+  expect(view.getUint32(physOffset + 8)).toBe(11811);
+  expect(view.getUint32(physOffset + 12)).toBe(11811);
+  expect(result[physOffset + 16]).toBe(1);
+  expect(view.getUint32(physOffset + 17)).toBe(
+    crc32(result.subarray(physOffset + 4, physOffset + 17))
+  );
+});
+
+test("setPngDpi replaces an existing pHYs chunk", () => {
+  const png = new Uint8Array([
+    ...PNG_SIGNATURE,
+    ...createChunk("IHDR", new Array(13).fill(0)),
+    ...createChunk("pHYs", new Array(9).fill(0)),
+    ...createChunk("IEND"),
+  ]);
+
+  expect(readChunkTypes(setPngDpi(png, 72))).toEqual(["IHDR", "pHYs", "IEND"]);
+});
+
+test("setJpegDpi updates the density of a JFIF header", () => {
+  const jpeg = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01,
+    0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0xff, 0xd9,
+  ]);
+
+  const result = setJpegDpi(jpeg, 300);
+
+  expect(result).toHaveLength(jpeg.length);
+  expect(Array.from(result.subarray(13, 18))).toEqual([1, 1, 44, 1, 44]);
+  expect(jpeg[13]).toBe(0);
+});
+
+test("setJpegDpi inserts a JFIF header when there is none", () => {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xdb, 0x00, 0x02, 0xff, 0xd9]);
+
+  const result = setJpegDpi(jpeg, 150);
+
+  expect(result).toHaveLength(jpeg.length + 18);
+  expect(Array.from(result.subarray(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+  expect(Array.from(result.subarray(13, 18))).toEqual([1, 0, 150, 0, 150]);
+  expect(Array.from(result.subarray(20))).toEqual([
+    0xff, 0xdb, 0x00, 0x02, 0xff, 0xd9,
+  ]);
+});
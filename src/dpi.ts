@@ -0,0 +1,125 @@
+// Writes a print resolution into encoded PNG (pHYs chunk) and JPEG (JFIF
+// APP0 density) files. Other formats are returned unchanged.
+
+const PNG_SIGNATURE_LENGTH = 8;
+const INCHES_PER_METER = 39.3701;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+export const crc32 = (bytes: Uint8Array) => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const readAscii = (bytes: Uint8Array, start: number, end: number) =>
+  Array.from(bytes.subarray(start, end))
+    .map((byte) => String.fromCharCode(byte))
+    .join("");
+
+export const readBlobBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const createPhysChunk = (dpi: number) => {
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return chunk;
+};
+
+export const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, offset + 8);
+    const end = offset + 12 + length;
+
+    // Drop any existing resolution, add ours right after the header
+    if (type !== "pHYs") parts.push(bytes.subarray(offset, end));
+    if (type === "IHDR") parts.push(createPhysChunk(dpi));
+    offset = end;
+  }
+
+  return concatBytes(parts);
+};
+
+export const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const density = Math.min(0xffff, Math.round(dpi));
+  const isJfif =
+    bytes[2] === 0xff &&
+    bytes[3] === 0xe0 &&
+    readAscii(bytes, 6, 11) === "JFIF\0";
+
+  if (isJfif) {
+    const updated = bytes.slice();
+    const view = new DataView(updated.buffer);
+    updated[13] = 1; // units: dots per inch
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return updated;
+  }
+
+  // No JFIF header yet, so insert one after the start-of-image marker
+  // prettier-ignore
+  const app0 = new Uint8Array([
+    0xff, 0xe0, 0x00, 0x10, // APP0 marker and length
+    0x4a, 0x46, 0x49, 0x46, 0x00, // "JFIF\0"
+    0x01, 0x01, // version 1.1
+    0x01, // units: dots per inch
+    density >> 8, density & 0xff,
+    density >> 8, density & 0xff,
+    0x00, 0x00, // no thumbnail
+  ]);
+  return concatBytes([bytes.subarray(0, 2), app0, bytes.subarray(2)]);
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+export const setImageDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  if (blob.type !== "image/png" && blob.type !== "image/jpeg") return blob;
+  const bytes = await readBlobBytes(blob);
+  const updated =
+    blob.type === "image/png" ? setPngDpi(bytes, dpi) : setJpegDpi(bytes, dpi);
+  return new Blob([updated], { type: blob.type });
+};
@@ -0,0 +1,54 @@
+import {
+  createHistory,
+  EditorState,
+  pushState,
+  redo,
+  undo,
+} from "./editHistory";
+import { DEFAULT_TRANSFORM } from "./cropEngine";
+
+const state = (x: number, zoom = 1): EditorState => ({
+  crop: { x, y: 0 },
+  zoom,
+  aspectRatio: 0,
+  area: { x, y: 0, width: 100, height: 100 },
+  transform: DEFAULT_TRANSFORM,
+});
+
+test("undo and redo walk through recorded states", () => {
+  let history = createHistory(state(0));
+  history = pushState(history, state(10));
+  history = pushState(history, state(20));
+
+  history = undo(history);
+  expect(history.present).toEqual(state(10));
+  history = undo(history);
+  expect(history.present).toEqual(state(0));
+  expect(undo(history)).toBe(history);
+
+  history = redo(history);
+  expect(history.present).toEqual(state(10));
+  expect(history.future).toEqual([state(20)]);
+});
+
+test("a new change clears the redo stack", () => {
+  let history = pushState(createHistory(state(0)), state(10));
+  history = pushState(undo(history), state(30));
+
+  expect(history.past).toEqual([state(0)]);
+  expect(history.future).toEqual([]);
+  expect(redo(history)).toBe(history);
+});
+
+test("pushState ignores sub-pixel changes", () => {
+  const history = createHistory(state(0));
+  expect(pushState(history, state(0.2))).toBe(history);
+  expect(pushState(history, state(0, 1.5))).not.toBe(history);
+});
+
+test("pushState drops the oldest steps beyond the limit", () => {
+  let history = createHistory(state(0));
+  for (let x = 1; x <= 5; x++) history = pushState(history, state(x), 3);
+
+  expect(history.past.map((entry) => entry.crop.x)).toEqual([2, 3, 4]);
+});
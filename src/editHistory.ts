@@ -0,0 +1,78 @@
+// Undo/redo history for the crop editor. Each image keeps its own stack of
+// editor snapshots; App decides when a change is settled enough to record.
+
+import { Area, ImageTransform, Point } from "./cropEngine";
+
+export interface EditorState {
+  crop: Point;
+  zoom: number;
+  aspectRatio: number;
+  area: Area;
+  transform: ImageTransform;
+}
+
+export interface EditHistory {
+  past: EditorState[];
+  present: EditorState;
+  future: EditorState[];
+}
+
+// Oldest steps are dropped beyond this many
+export const HISTORY_LIMIT = 50;
+
+export const createHistory = (state: EditorState): EditHistory => ({
+  past: [],
+  present: state,
+  future: [],
+});
+
+const samePoint = (a: Point, b: Point) =>
+  Math.abs(a.x - b.x) < 0.5 && Math.abs(a.y - b.y) < 0.5;
+
+const sameArea = (a: Area, b: Area) =>
+  samePoint(a, b) &&
+  Math.abs(a.width - b.width) < 0.5 &&
+  Math.abs(a.height - b.height) < 0.5;
+
+// Sub-pixel differences come from the cropper recomputing the same crop and
+// are not worth an undo step
+export const isSameState = (a: EditorState, b: EditorState) =>
+  samePoint(a.crop, b.crop) &&
+  sameArea(a.area, b.area) &&
+  a.zoom === b.zoom &&
+  a.aspectRatio === b.aspectRatio &&
+  a.transform.rotation === b.transform.rotation &&
+  a.transform.flipHorizontal === b.transform.flipHorizontal &&
+  a.transform.flipVertical === b.transform.flipVertical;
+
+// Records a new state, clearing anything that could have been redone
+export const pushState = (
+  history: EditHistory,
+  state: EditorState,
+  limit = HISTORY_LIMIT
+): EditHistory => {
+  if (isSameState(history.present, state)) return history;
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: state,
+    future: [],
+  };
+};
+
+export const undo = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redo = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
@@ -0,0 +1,117 @@
+import {
+  createExifSegment,
+  getCameraName,
+  insertJpegExif,
+  parseExif,
+  parseExifDate,
+} from "./exif";
+import { getPreservedTags } from "./exportSettings";
+
+const SOI = [0xff, 0xd8];
+const EOI = [0xff, 0xd9];
+
+// Little-endian Exif APP1 with Orientation, Make and a GPS pointer in IFD0
+const createCameraSegment = (orientation: number) => {
+  const make = Array.from("Canon\0").map((char) => char.charCodeAt(0));
+  // prettier-ignore
+  const tiff = [
+    0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+    0x03, 0x00,
+    0x0f, 0x01, 0x02, 0x00, 0x06, 0x00, 0x00, 0x00, 0x32, 0x00, 0x00, 0x00,
+    0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00,
+    0x25, 0x88, 0x04, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00,
+    ...make,
+  ];
+  const length = tiff.length + 8;
+  return [
+    0xff,
+    0xe1,
+    length >> 8,
+    length & 0xff,
+    ...Array.from("Exif\0\0").map((char) => char.charCodeAt(0)),
+    ...tiff,
+  ];
+};
+
+test("parseExif reads orientation, camera and GPS presence", () => {
+  const jpeg = new Uint8Array([...SOI, ...createCameraSegment(6), ...EOI]);
+
+  expect(parseExif(jpeg)).toEqual({
+    orientation: 6,
+    make: "Canon",
+    model: undefined,
+    dateTaken: undefined,
+    artist: undefined,
+    copyright: undefined,
+    hasGps: true,
+  });
+});
+
+test("parseExif returns null without an Exif block", () => {
+  expect(parseExif(new Uint8Array([...SOI, ...EOI]))).toBeNull();
+  expect(parseExif(new Uint8Array([1, 2, 3]))).toBeNull();
+});
+
+test("written tags survive a round trip", () => {
+  const segment = createExifSegment({
+    copyright: "© Jane Doe",
+    artist: "Jane Doe",
+    dateTaken: "2024:05:01 10:30:00",
+  });
+  expect(segment).not.toBeNull();
+
+  const jpeg = insertJpegExif(
+    new Uint8Array([...SOI, ...EOI]),
+    segment as Uint8Array
+  );
+  const exif = parseExif(jpeg);
+
+  expect(exif).toMatchObject({
+    orientation: 1,
+    artist: "Jane Doe",
+    copyright: "© Jane Doe",
+    dateTaken: "2024:05:01 10:30:00",
+    hasGps: false,
+  });
+  expect(Array.from(jpeg.subarray(-2))).toEqual(EOI);
+});
+
+test("createExifSegment has nothing to write without tags", () => {
+  expect(createExifSegment({})).toBeNull();
+});
+
+test("getPreservedTags only keeps the selected tags", () => {
+  const exif = parseExif(
+    new Uint8Array([...SOI, ...createCameraSegment(1), ...EOI])
+  );
+  expect(getPreservedTags([], exif)).toBeUndefined();
+  expect(
+    getPreservedTags(["dateTaken"], {
+      orientation: 1,
+      hasGps: true,
+      copyright: "Jane Doe",
+      dateTaken: "2024:05:01 10:30:00",
+    })
+  ).toEqual({
+    artist: undefined,
+    copyright: undefined,
+    dateTaken: "2024:05:01 10:30:00",
+  });
+});
+
+test("getCameraName and parseExifDate format card details", () => {
+  expect(getCameraName({ orientation: 1, hasGps: false })).toBeUndefined();
+  expect(
+    getCameraName({
+      orientation: 1,
+      hasGps: false,
+      make: "Canon",
+      model: "Canon EOS R6",
+    })
+  ).toBe("Canon EOS R6");
+  expect(parseExifDate("2024:05:01 10:30:00")).toEqual(
+    new Date(2024, 4, 1, 10, 30, 0)
+  );
+  expect(parseExifDate("garbage")).toBeUndefined();
+});
@@ -0,0 +1,276 @@
+// Minimal EXIF support: reads orientation and a few descriptive tags from
+// JPEG, HEIC and other files that embed an "Exif" TIFF block, and builds a
+// small APP1 segment so selected tags can be written back into JPEG output.
+
+import { readBlobBytes } from "./dpi";
+
+export interface ExifData {
+  // 1-8 as defined by the TIFF spec, 1 is upright
+  orientation: number;
+  make?: string;
+  model?: string;
+  // "YYYY:MM:DD HH:MM:SS" as stored in the file
+  dateTaken?: string;
+  artist?: string;
+  copyright?: string;
+  hasGps: boolean;
+}
+
+// Tags that can be carried over into exported JPEGs
+export interface PreservedTags {
+  artist?: string;
+  copyright?: string;
+  dateTaken?: string;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_ASCII = 2;
+
+// EXIF lives near the start of the file, so only read that much
+const MAX_SCAN_BYTES = 256 * 1024;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+const matchesAt = (bytes: Uint8Array, offset: number, pattern: number[]) =>
+  pattern.every((byte, index) => bytes[offset + index] === byte);
+
+// Offset of the TIFF header inside the file, or -1
+const findTiffOffset = (bytes: Uint8Array): number => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // JPEG: walk the marker segments up to the image data
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (marker === 0xe1 && matchesAt(bytes, offset + 4, EXIF_HEADER)) {
+        return offset + 10;
+      }
+      if (marker === 0xda) break;
+      offset += 2 + length;
+    }
+    return -1;
+  }
+
+  // HEIC and friends keep the same block inside their container
+  for (let offset = 0; offset + 10 <= bytes.length; offset++) {
+    if (matchesAt(bytes, offset, EXIF_HEADER)) return offset + 6;
+  }
+  return -1;
+};
+
+export const parseExif = (bytes: Uint8Array): ExifData | null => {
+  const tiff = findTiffOffset(bytes);
+  if (tiff < 0 || tiff + 8 > bytes.length) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const byteOrder = view.getUint16(tiff);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const little = byteOrder === 0x4949;
+
+  const inBounds = (offset: number, size: number) =>
+    offset >= 0 && offset + size <= bytes.length;
+  const getUint16 = (offset: number) => view.getUint16(offset, little);
+  const getUint32 = (offset: number) => view.getUint32(offset, little);
+
+  const readEntries = (ifdOffset: number) => {
+    const entries = new Map<number, number>();
+    const start = tiff + ifdOffset;
+    if (!inBounds(start, 2)) return entries;
+    const count = getUint16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (!inBounds(entry, 12)) break;
+      entries.set(getUint16(entry), entry);
+    }
+    return entries;
+  };
+
+  const readString = (entry?: number) => {
+    if (entry === undefined || getUint16(entry + 2) !== TYPE_ASCII) {
+      return undefined;
+    }
+    const count = getUint32(entry + 4);
+    const start = count > 4 ? tiff + getUint32(entry + 8) : entry + 8;
+    if (!inBounds(start, count)) return undefined;
+    const text = Array.from(bytes.subarray(start, start + count))
+      .map((byte) => String.fromCharCode(byte))
+      .join("")
+      .replace(/\0+$/, "")
+      .trim();
+    return text || undefined;
+  };
+
+  const readNumber = (entry?: number) => {
+    if (entry === undefined) return undefined;
+    const type = getUint16(entry + 2);
+    if (type === TYPE_SHORT) return getUint16(entry + 8);
+    if (type === TYPE_LONG) return getUint32(entry + 8);
+    return undefined;
+  };
+
+  const ifd0 = readEntries(getUint32(tiff + 4));
+  const exifIfdOffset = readNumber(ifd0.get(TAG_EXIF_IFD));
+  const exifIfd =
+    exifIfdOffset !== undefined ? readEntries(exifIfdOffset) : new Map();
+  const orientation = readNumber(ifd0.get(TAG_ORIENTATION)) ?? 1;
+
+  return {
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+    make: readString(ifd0.get(TAG_MAKE)),
+    model: readString(ifd0.get(TAG_MODEL)),
+    dateTaken:
+      readString(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ??
+      readString(ifd0.get(TAG_DATE_TIME)),
+    artist: readString(ifd0.get(TAG_ARTIST)),
+    copyright: readString(ifd0.get(TAG_COPYRIGHT)),
+    hasGps: ifd0.has(TAG_GPS_IFD),
+  };
+};
+
+export const readExif = async (file: Blob): Promise<ExifData | null> =>
+  parseExif(await readBlobBytes(file.slice(0, MAX_SCAN_BYTES)));
+
+// Camera name without the make repeated in the model, e.g. "Canon EOS R6"
+export const getCameraName = ({ make, model }: ExifData) => {
+  if (make && model && model.startsWith(make)) return model;
+  return [make, model].filter(Boolean).join(" ") || undefined;
+};
+
+// "2024:05:01 10:30:00" to a Date, or undefined if it is malformed
+export const parseExifDate = (value?: string) => {
+  const match = value?.match(
+    /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/
+  );
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+/* Writing */
+
+interface TiffEntry {
+  tag: number;
+  // ASCII text, or the offset of a sub-IFD
+  value: string | number;
+}
+
+// One byte per character, matching how tags are read back; anything outside
+// Latin-1 becomes "?"
+const encodeAscii = (value: string) =>
+  Array.from(value)
+    .map((char) => (char.charCodeAt(0) < 0x100 ? char.charCodeAt(0) : 0x3f))
+    .concat(0);
+
+const ifdSize = (count: number) => 2 + count * 12 + 4;
+
+// Big-endian TIFF block holding ASCII tags in IFD0 and, when given, an EXIF
+// sub-IFD
+const buildTiff = (ifd0Tags: TiffEntry[], exifTags: TiffEntry[]) => {
+  const exifIfdOffset =
+    8 + ifdSize(ifd0Tags.length + (exifTags.length > 0 ? 1 : 0));
+  let dataOffset =
+    exifIfdOffset + (exifTags.length > 0 ? ifdSize(exifTags.length) : 0);
+  const size = [...ifd0Tags, ...exifTags].reduce(
+    (total, { value }) =>
+      total + (typeof value === "string" ? encodeAscii(value).length : 0),
+    dataOffset
+  );
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x4d, 0x4d, 0x00, 0x2a]); // "MM", 42
+  view.setUint32(4, 8);
+
+  const writeIfd = (offset: number, tags: TiffEntry[]) => {
+    const entries = [...tags].sort((a, b) => a.tag - b.tag);
+    view.setUint16(offset, entries.length);
+    entries.forEach(({ tag, value }, index) => {
+      const position = offset + 2 + index * 12;
+      view.setUint16(position, tag);
+      if (typeof value === "number") {
+        view.setUint16(position + 2, TYPE_LONG);
+        view.setUint32(position + 4, 1);
+        view.setUint32(position + 8, value);
+        return;
+      }
+      const encoded = encodeAscii(value);
+      view.setUint16(position + 2, TYPE_ASCII);
+      view.setUint32(position + 4, encoded.length);
+      if (encoded.length <= 4) {
+        bytes.set(encoded, position + 8);
+      } else {
+        view.setUint32(position + 8, dataOffset);
+        bytes.set(encoded, dataOffset);
+        dataOffset += encoded.length;
+      }
+    });
+    view.setUint32(offset + 2 + entries.length * 12, 0);
+  };
+
+  if (exifTags.length > 0) {
+    writeIfd(8, [...ifd0Tags, { tag: TAG_EXIF_IFD, value: exifIfdOffset }]);
+    writeIfd(exifIfdOffset, exifTags);
+  } else {
+    writeIfd(8, ifd0Tags);
+  }
+
+  return bytes;
+};
+
+// APP1 segment with the given tags, or null when there is nothing to write
+export const createExifSegment = (tags: PreservedTags): Uint8Array | null => {
+  const ifd0Tags = [
+    tags.dateTaken && { tag: TAG_DATE_TIME, value: tags.dateTaken },
+    tags.artist && { tag: TAG_ARTIST, value: tags.artist },
+    tags.copyright && { tag: TAG_COPYRIGHT, value: tags.copyright },
+  ].filter(Boolean) as TiffEntry[];
+  const exifTags = tags.dateTaken
+    ? [{ tag: TAG_DATE_TIME_ORIGINAL, value: tags.dateTaken }]
+    : [];
+  if (ifd0Tags.length === 0) return null;
+
+  const tiff = buildTiff(ifd0Tags, exifTags);
+  const segment = new Uint8Array(4 + EXIF_HEADER.length + tiff.length);
+  const length = segment.length - 2;
+  segment.set([0xff, 0xe1, length >> 8, length & 0xff]);
+  segment.set(EXIF_HEADER, 4);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+  return segment;
+};
+
+// Inserts an APP1 segment after the SOI marker and any JFIF header
+export const insertJpegExif = (
+  bytes: Uint8Array,
+  segment: Uint8Array
+): Uint8Array => {
+  let offset = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    offset += 2 + ((bytes[4] << 8) | bytes[5]);
+  }
+  const result = new Uint8Array(bytes.length + segment.length);
+  result.set(bytes.subarray(0, offset));
+  result.set(segment, offset);
+  result.set(bytes.subarray(offset), offset + segment.length);
+  return result;
+};
+
+export const writeJpegExif = async (
+  blob: Blob,
+  tags: PreservedTags
+): Promise<Blob> => {
+  const segment = createExifSegment(tags);
+  if (blob.type !== "image/jpeg" || !segment) return blob;
+  const bytes = insertJpegExif(await readBlobBytes(blob), segment);
+  return new Blob([bytes], { type: blob.type });
+};
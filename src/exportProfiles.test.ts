@@ -0,0 +1,92 @@
+import {
+  ExportProfile,
+  mergeProfiles,
+  parseProfiles,
+  serializeProfiles,
+} from "./exportProfiles";
+import { DEFAULT_EXPORT_SETTINGS } from "./exportSettings";
+import { DEFAULT_OUTPUT_SETTINGS } from "./outputSize";
+
+const profile = (name: string, quality = 80): ExportProfile => ({
+  id: name,
+  name,
+  aspectRatio: 1,
+  outputSettings: { ...DEFAULT_OUTPUT_SETTINGS, mode: "maxEdge", maxEdge: 400 },
+  exportSettings: {
+    ...DEFAULT_EXPORT_SETTINGS,
+    format: "image/webp",
+    quality,
+  },
+  fileNamePattern: "{name}-thumb",
+});
+
+test("profiles survive a round trip through JSON", () => {
+  const { profiles, errors } = parseProfiles(
+    serializeProfiles([profile("Web thumbnail"), profile("Blog hero", 85)])
+  );
+  expect(errors).toEqual([]);
+  expect(profiles.map(({ id, ...rest }) => rest)).toEqual(
+    [profile("Web thumbnail"), profile("Blog hero", 85)].map(
+      ({ id, ...rest }) => rest
+    )
+  );
+});
+
+test("parseProfiles fills missing settings with defaults", () => {
+  const { profiles, errors } = parseProfiles(
+    JSON.stringify([{ name: "Plain", exportSettings: { quality: 70 } }])
+  );
+  expect(errors).toEqual([]);
+  expect(profiles[0].exportSettings).toEqual({
+    ...DEFAULT_EXPORT_SETTINGS,
+    quality: 70,
+  });
+  expect(profiles[0].outputSettings).toEqual(DEFAULT_OUTPUT_SETTINGS);
+  expect(profiles[0].fileNamePattern).toBe("cropped-{name}");
+});
+
+test("parseProfiles keeps valid profiles and reports the others", () => {
+  const { profiles, errors } = parseProfiles(
+    JSON.stringify({
+      version: 1,
+      profiles: [
+        { name: "Good" },
+        { name: "Bad", aspectRatio: "wide", exportSettings: { quality: 0 } },
+        { exportSettings: { format: "image/gif" } },
+      ],
+    })
+  );
+  expect(profiles.map((entry) => entry.name)).toEqual(["Good"]);
+  expect(errors).toEqual([
+    'Profile 2 ("Bad"): aspectRatio must be a positive number, 0 (free) or -1 (original); quality must be a number from 1 to 100',
+    'Profile 3: name is required; unsupported format "image/gif"',
+  ]);
+});
+
+test("parseProfiles rejects malformed files", () => {
+  expect(parseProfiles("{").errors[0]).toMatch(/^The file is not valid JSON/);
+  expect(parseProfiles('{"name": "x"}').errors).toEqual([
+    'Expected a "profiles" list or an array of profiles',
+  ]);
+  expect(parseProfiles('{"version": 9, "profiles": []}').errors[0]).toMatch(
+    /newer version/
+  );
+  expect(parseProfiles("[]").errors).toEqual(["The file contains no profiles"]);
+});
+
+test("mergeProfiles replaces profiles with the same name", () => {
+  const merged = mergeProfiles(
+    [profile("A"), profile("B")],
+    [profile("B", 50), profile("C")]
+  );
+  expect(merged.map((entry) => entry.name)).toEqual(["A", "B", "C"]);
+  expect(merged[1].exportSettings.quality).toBe(50);
+});
+
+test("mergeProfiles keeps the id of a replaced profile", () => {
+  const merged = mergeProfiles(
+    [profile("A")],
+    [{ ...profile("A", 50), id: "imported" }]
+  );
+  expect(merged).toEqual([{ ...profile("A", 50), id: "A" }]);
+});
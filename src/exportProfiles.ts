@@ -0,0 +1,235 @@
+// Named bundles of crop and export settings for standard deliverables, e.g.
+// "Web thumbnail: 1:1, 400px, WebP 80". Profiles can be shared as JSON files.
+
+import { nanoid } from "nanoid";
+import { AspectRatios } from "./types";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  ExportFormats,
+  ExportSettings,
+  MetadataTags,
+} from "./exportSettings";
+import { DEFAULT_FILE_NAME_TEMPLATE } from "./fileNameTemplate";
+import {
+  DEFAULT_OUTPUT_SETTINGS,
+  OutputModes,
+  OutputSettings,
+} from "./outputSize";
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  aspectRatio: number;
+  outputSettings: OutputSettings;
+  exportSettings: ExportSettings;
+  // Download name template, see fileNameTemplate
+  fileNamePattern: string;
+}
+
+// Bumped when the file layout changes in a way older versions cannot read
+export const PROFILES_FILE_VERSION = 1;
+
+export interface ProfileImportResult {
+  profiles: ExportProfile[];
+  // One message per rejected profile, or for the file as a whole
+  errors: string[];
+}
+
+export const serializeProfiles = (profiles: ExportProfile[]) =>
+  JSON.stringify(
+    {
+      version: PROFILES_FILE_VERSION,
+      profiles: profiles.map(({ id, ...profile }) => profile),
+    },
+    null,
+    2
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const checkOutputSettings = (value: unknown, problems: string[]) => {
+  if (value === undefined) return DEFAULT_OUTPUT_SETTINGS;
+  if (!isRecord(value)) {
+    problems.push("outputSettings must be an object");
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+  const settings = { ...DEFAULT_OUTPUT_SETTINGS, ...value } as OutputSettings;
+  if (!OutputModes.some((mode) => mode.value === settings.mode)) {
+    problems.push(`unknown output mode "${settings.mode}"`);
+  }
+  (
+    [
+      "width",
+      "height",
+      "maxEdge",
+      "percent",
+      "printWidth",
+      "printHeight",
+      "dpi",
+    ] as const
+  ).forEach((key) => {
+    if (!isPositive(settings[key])) {
+      problems.push(`outputSettings.${key} must be a positive number`);
+    }
+  });
+  if (settings.unit !== "in" && settings.unit !== "cm") {
+    problems.push('outputSettings.unit must be "in" or "cm"');
+  }
+  return settings;
+};
+
+const checkExportSettings = (value: unknown, problems: string[]) => {
+  if (value === undefined) return DEFAULT_EXPORT_SETTINGS;
+  if (!isRecord(value)) {
+    problems.push("exportSettings must be an object");
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+  const settings = { ...DEFAULT_EXPORT_SETTINGS, ...value } as ExportSettings;
+  if (!ExportFormats.some((info) => info.mimeType === settings.format)) {
+    problems.push(`unsupported format "${settings.format}"`);
+  }
+  if (
+    typeof settings.quality !== "number" ||
+    settings.quality < 1 ||
+    settings.quality > 100
+  ) {
+    problems.push("quality must be a number from 1 to 100");
+  }
+  if (
+    typeof settings.backgroundColor !== "string" ||
+    !/^#[0-9a-f]{6}$/i.test(settings.backgroundColor)
+  ) {
+    problems.push("backgroundColor must be a hex colour like #ffffff");
+  }
+  if (
+    !Array.isArray(settings.keepMetadata) ||
+    settings.keepMetadata.some(
+      (tag) => !MetadataTags.some((entry) => entry.value === tag)
+    )
+  ) {
+    problems.push(
+      `keepMetadata may only list ${MetadataTags.map(
+        (entry) => `"${entry.value}"`
+      ).join(", ")}`
+    );
+  }
+  return settings;
+};
+
+// Validates one entry of a profiles file. Missing settings fall back to the
+// defaults, so hand-written files only need the fields they care about.
+export const parseProfile = (
+  value: unknown
+): { profile?: ExportProfile; problems: string[] } => {
+  if (!isRecord(value)) return { problems: ["must be an object"] };
+  const problems: string[] = [];
+
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) problems.push("name is required");
+
+  const aspectRatio = value.aspectRatio ?? AspectRatios.FREE;
+  if (
+    typeof aspectRatio !== "number" ||
+    !(
+      aspectRatio === AspectRatios.FREE ||
+      aspectRatio === AspectRatios.ORIGINAL ||
+      isPositive(aspectRatio)
+    )
+  ) {
+    problems.push(
+      "aspectRatio must be a positive number, 0 (free) or -1 (original)"
+    );
+  }
+
+  const fileNamePattern = value.fileNamePattern ?? DEFAULT_FILE_NAME_TEMPLATE;
+  if (typeof fileNamePattern !== "string" || !fileNamePattern.trim()) {
+    problems.push("fileNamePattern must be a non-empty string");
+  }
+
+  const outputSettings = checkOutputSettings(value.outputSettings, problems);
+  const exportSettings = checkExportSettings(value.exportSettings, problems);
+
+  if (problems.length > 0) return { problems };
+  return {
+    profile: {
+      id: nanoid(),
+      name,
+      aspectRatio: aspectRatio as number,
+      outputSettings,
+      exportSettings,
+      fileNamePattern: (fileNamePattern as string).trim(),
+    },
+    problems,
+  };
+};
+
+// Reads a profiles file. Valid profiles are returned even when others in
+// the same file are rejected.
+export const parseProfiles = (text: string): ProfileImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      profiles: [],
+      errors: [
+        `The file is not valid JSON${
+          error instanceof Error ? `: ${error.message}` : ""
+        }`,
+      ],
+    };
+  }
+
+  const entries = isRecord(data) ? data.profiles : data;
+  if (!Array.isArray(entries)) {
+    return {
+      profiles: [],
+      errors: ['Expected a "profiles" list or an array of profiles'],
+    };
+  }
+  if (isRecord(data) && Number(data.version) > PROFILES_FILE_VERSION) {
+    return {
+      profiles: [],
+      errors: [
+        `The file was made by a newer version (${data.version}) and cannot be read`,
+      ],
+    };
+  }
+
+  const profiles: ExportProfile[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const { profile, problems } = parseProfile(entry);
+    if (profile) {
+      profiles.push(profile);
+      return;
+    }
+    const name =
+      isRecord(entry) && typeof entry.name === "string" && entry.name.trim()
+        ? ` ("${entry.name.trim()}")`
+        : "";
+    errors.push(`Profile ${index + 1}${name}: ${problems.join("; ")}`);
+  });
+  if (entries.length === 0) errors.push("The file contains no profiles");
+  return { profiles, errors };
+};
+
+// Adds imported profiles, replacing existing ones with the same name. A
+// replaced profile keeps its id and place, so selections of it still apply.
+export const mergeProfiles = (
+  existing: ExportProfile[],
+  imported: ExportProfile[]
+) => {
+  const byName = new Map(imported.map((profile) => [profile.name, profile]));
+  const merged = existing.map((profile) => {
+    const replacement = byName.get(profile.name);
+    if (!replacement) return profile;
+    byName.delete(profile.name);
+    return { ...replacement, id: profile.id };
+  });
+  return [...merged, ...Array.from(byName.values())];
+};
@@ -0,0 +1,95 @@
+import { createExportQueue, ExportJob } from "./exportQueue";
+import { isCancelled } from "./exportWorker";
+
+const createQueue = () => {
+  let jobs: ExportJob[] = [];
+  const queue = createExportQueue((next) => {
+    jobs = next;
+  });
+  return { queue, getJobs: () => jobs };
+};
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+test("runs jobs one at a time in order", async () => {
+  const { queue, getJobs } = createQueue();
+  const first = deferred<string>();
+  const started: string[] = [];
+
+  const a = queue.add("a", () => {
+    started.push("a");
+    return first.promise;
+  });
+  const b = queue.add("b", async () => {
+    started.push("b");
+    return "b";
+  });
+
+  await Promise.resolve();
+  expect(started).toEqual(["a"]);
+  expect(getJobs().map((job) => job.status)).toEqual(["running", "queued"]);
+
+  first.resolve("a");
+  await expect(a).resolves.toBe("a");
+  await expect(b).resolves.toBe("b");
+  expect(started).toEqual(["a", "b"]);
+  expect(getJobs().map((job) => job.status)).toEqual(["done", "done"]);
+});
+
+test("reports progress and failures", async () => {
+  const { queue, getJobs } = createQueue();
+
+  const job = queue.add("bad", async (_, onProgress) => {
+    onProgress(0.5);
+    expect(getJobs()[0].progress).toBe(0.5);
+    throw new Error("The image could not be decoded");
+  });
+
+  await expect(job).rejects.toThrow("could not be decoded");
+  expect(getJobs()[0]).toMatchObject({
+    status: "failed",
+    error: "The image could not be decoded",
+  });
+});
+
+test("cancels queued jobs without running them", async () => {
+  const { queue, getJobs } = createQueue();
+  const first = deferred<void>();
+  const second = jest.fn(async () => undefined);
+
+  const a = queue.add("a", () => first.promise);
+  const b = queue.add("b", second);
+  queue.cancel(getJobs()[1].id);
+
+  const error = await b.catch((reason) => reason);
+  expect(isCancelled(error)).toBe(true);
+  expect(getJobs()[1].status).toBe("cancelled");
+
+  first.resolve();
+  await a;
+  expect(second).not.toHaveBeenCalled();
+
+  queue.clearFinished();
+  expect(getJobs()).toEqual([]);
+});
+
+test("aborts the signal of a running job", async () => {
+  const { queue } = createQueue();
+  let signal: AbortSignal | undefined;
+
+  const job = queue.add("a", (jobSignal) => {
+    signal = jobSignal;
+    return new Promise(() => {});
+  });
+  await Promise.resolve();
+  queue.cancelAll();
+
+  await expect(job).rejects.toThrow("Export cancelled");
+  expect(signal?.aborted).toBe(true);
+});
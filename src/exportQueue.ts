@@ -0,0 +1,125 @@
+// Runs export jobs one at a time and reports their state for the UI. Jobs
+// can be cancelled while they wait or run; the caller's promise then rejects
+// with a cancelled error (see isCancelled).
+
+import { Area, CropOptions } from "./cropEngine";
+import {
+  createCancelledError,
+  exportCrop,
+  ExportSource,
+  isCancelled,
+} from "./exportWorker";
+
+export type ExportJobStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface ExportJob {
+  id: string;
+  label: string;
+  status: ExportJobStatus;
+  // 0-1
+  progress: number;
+  error?: string;
+}
+
+export type ExportTask<T> = (
+  signal: AbortSignal,
+  onProgress: (progress: number) => void
+) => Promise<T>;
+
+export interface ExportQueue {
+  add: <T>(label: string, task: ExportTask<T>) => Promise<T>;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  // Drops finished jobs from the list
+  clearFinished: () => void;
+}
+
+export const isJobActive = (job: ExportJob) =>
+  job.status === "queued" || job.status === "running";
+
+export const createExportQueue = (
+  onChange: (jobs: ExportJob[]) => void
+): ExportQueue => {
+  let jobs: ExportJob[] = [];
+  let nextId = 0;
+  let tail: Promise<unknown> = Promise.resolve();
+  const controllers = new Map<string, AbortController>();
+
+  const setJobs = (next: ExportJob[]) => {
+    jobs = next;
+    onChange(jobs);
+  };
+
+  const update = (id: string, changes: Partial<ExportJob>) =>
+    setJobs(jobs.map((job) => (job.id === id ? { ...job, ...changes } : job)));
+
+  const add = <T>(label: string, task: ExportTask<T>): Promise<T> => {
+    const id = String(nextId++);
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    setJobs([...jobs, { id, label, status: "queued", progress: 0 }]);
+
+    const run = tail.then(() => {
+      if (controller.signal.aborted) throw createCancelledError();
+      update(id, { status: "running" });
+      return task(controller.signal, (progress) => {
+        if (!controller.signal.aborted) update(id, { progress });
+      });
+    });
+    tail = run.catch(() => undefined);
+
+    // Settle as soon as the job is cancelled, even while it is still queued
+    const cancelled = new Promise<never>((_, reject) =>
+      controller.signal.addEventListener("abort", () =>
+        reject(createCancelledError())
+      )
+    );
+
+    return Promise.race([run, cancelled]).then(
+      (result) => {
+        controllers.delete(id);
+        update(id, { status: "done", progress: 1 });
+        return result;
+      },
+      (error) => {
+        controllers.delete(id);
+        update(
+          id,
+          isCancelled(error)
+            ? { status: "cancelled" }
+            : {
+                status: "failed",
+                error: error instanceof Error ? error.message : "Export failed",
+              }
+        );
+        throw error;
+      }
+    );
+  };
+
+  const cancel = (id: string) => controllers.get(id)?.abort();
+
+  return {
+    add,
+    cancel,
+    cancelAll: () => Array.from(controllers.keys()).forEach(cancel),
+    clearFinished: () => setJobs(jobs.filter(isJobActive)),
+  };
+};
+
+// Queues a crop rendered by exportCrop
+export const queueCrop = (
+  queue: ExportQueue,
+  label: string,
+  source: ExportSource,
+  area: Area,
+  options?: CropOptions
+) =>
+  queue.add(label, (signal, onProgress) =>
+    exportCrop(source, area, options, { signal, onProgress })
+  );
@@ -0,0 +1,134 @@
+import { EncodeOptions } from "./cropEngine";
+import { ExifData, PreservedTags } from "./exif";
+
+export type ExportFormat =
+  | "image/png"
+  | "image/jpeg"
+  | "image/webp"
+  | "image/avif";
+
+export interface ExportFormatInfo {
+  mimeType: ExportFormat;
+  label: string;
+  extension: string;
+  lossy: boolean;
+  alpha: boolean;
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 1-100, only used by lossy formats
+  quality: number;
+  // Fill for formats without an alpha channel
+  backgroundColor: string;
+  // Source EXIF tags carried into JPEG output, none strips all metadata
+  keepMetadata: MetadataTag[];
+}
+
+export type MetadataTag = "copyright" | "dateTaken";
+
+export const MetadataTags: { value: MetadataTag; label: string }[] = [
+  { value: "copyright", label: "Copyright and artist" },
+  { value: "dateTaken", label: "Capture date" },
+];
+
+export const ExportFormats: ExportFormatInfo[] = [
+  {
+    mimeType: "image/png",
+    label: "PNG",
+    extension: "png",
+    lossy: false,
+    alpha: true,
+  },
+  {
+    mimeType: "image/jpeg",
+    label: "JPEG",
+    extension: "jpg",
+    lossy: true,
+    alpha: false,
+  },
+  {
+    mimeType: "image/webp",
+    label: "WebP",
+    extension: "webp",
+    lossy: true,
+    alpha: true,
+  },
+  {
+    mimeType: "image/avif",
+    label: "AVIF",
+    extension: "avif",
+    lossy: true,
+    alpha: true,
+  },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "image/png",
+  quality: 90,
+  backgroundColor: "#ffffff",
+  keepMetadata: [],
+};
+
+export const getFormatInfo = (format: ExportFormat): ExportFormatInfo =>
+  ExportFormats.find((info) => info.mimeType === format) ?? ExportFormats[0];
+
+const encodingSupport: Partial<Record<ExportFormat, boolean>> = {};
+
+// Browsers silently fall back to PNG for types they cannot encode, so probe
+// a tiny canvas and check which type actually came back
+export const canEncode = (format: ExportFormat): boolean => {
+  if (format === "image/png") return true;
+  if (encodingSupport[format] === undefined) {
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = 1;
+      canvas.height = 1;
+      encodingSupport[format] = canvas
+        .toDataURL(format)
+        .startsWith(`data:${format}`);
+    } catch {
+      encodingSupport[format] = false;
+    }
+  }
+  return encodingSupport[format] as boolean;
+};
+
+export const getSupportedFormats = (): ExportFormatInfo[] =>
+  ExportFormats.filter((info) => canEncode(info.mimeType));
+
+// Replaces the source extension with the one matching the export format
+export const getExportFileName = (name: string, format: ExportFormat) => {
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  return `${base}.${getFormatInfo(format).extension}`;
+};
+
+// Source tags selected for keeping, or undefined when nothing is kept
+export const getPreservedTags = (
+  keep: MetadataTag[] = [],
+  exif?: ExifData | null
+): PreservedTags | undefined => {
+  if (!exif) return undefined;
+  const tags: PreservedTags = {
+    artist: keep.includes("copyright") ? exif.artist : undefined,
+    copyright: keep.includes("copyright") ? exif.copyright : undefined,
+    dateTaken: keep.includes("dateTaken") ? exif.dateTaken : undefined,
+  };
+  return Object.values(tags).some(Boolean) ? tags : undefined;
+};
+
+// Canvas encoding options for the crop engine. The source EXIF is needed to
+// carry selected tags over into the output.
+export const toEncodeOptions = (
+  settings: ExportSettings,
+  exif?: ExifData | null
+): EncodeOptions => {
+  const formatInfo = getFormatInfo(settings.format);
+  return {
+    type: formatInfo.mimeType,
+    quality: formatInfo.lossy ? settings.quality / 100 : undefined,
+    background: formatInfo.alpha ? undefined : settings.backgroundColor,
+    metadata: getPreservedTags(settings.keepMetadata, exif),
+  };
+};
@@ -0,0 +1,176 @@
+// Crops and encodes exports in a worker with OffscreenCanvas so large images
+// don't freeze the page. The worker and browsers without one run the same
+// pipeline from cropEngine.
+
+import { createExportWorker } from "./createExportWorker";
+import {
+  Area,
+  assertCropSize,
+  canvasToBlob,
+  CropOptions,
+  CropShape,
+  Dimensions,
+  rasterizeMask,
+  renderCrop,
+  writeImageMetadata,
+} from "./cropEngine";
+import {
+  ExportRequest,
+  ExportResponse,
+  WorkerShape,
+} from "./exportWorker.worker";
+
+// The original file for the worker, and the URL the cropper shows for the
+// main-thread fallback; both are upright
+export interface ExportSource {
+  file: Blob;
+  url: string;
+}
+
+export interface ExportCallbacks {
+  signal?: AbortSignal;
+  // 0-1
+  onProgress?: (progress: number) => void;
+}
+
+interface WorkerJob {
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+  // Runs the job on the main thread if the worker breaks before answering
+  fallback: () => Promise<Blob>;
+}
+
+export const createCancelledError = () => {
+  const error = new Error("Export cancelled");
+  error.name = "AbortError";
+  return error;
+};
+
+export const isCancelled = (error: unknown) =>
+  error instanceof Error && error.name === "AbortError";
+
+let worker: Worker | null = null;
+let isWorkerBroken = false;
+let nextId = 0;
+const jobs = new Map<number, WorkerJob>();
+
+const supportsWorker = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+const getWorker = () => {
+  if (worker || isWorkerBroken || !supportsWorker()) return worker;
+  try {
+    worker = createExportWorker();
+  } catch {
+    isWorkerBroken = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<ExportResponse>) => {
+    const { id, progress, blob, error } = event.data;
+    const job = jobs.get(id);
+    if (!job) return;
+    if (progress !== undefined) {
+      job.onProgress?.(progress);
+      return;
+    }
+    jobs.delete(id);
+    if (blob) job.resolve(blob);
+    else job.reject(new Error(error ?? "Failed to encode the cropped image"));
+  };
+
+  worker.onerror = () => {
+    isWorkerBroken = true;
+    worker?.terminate();
+    worker = null;
+    const pending = Array.from(jobs.values());
+    jobs.clear();
+    pending.forEach(({ fallback, resolve, reject }) =>
+      fallback().then(resolve, reject)
+    );
+  };
+  return worker;
+};
+
+const cropOnMainThread = async (
+  url: string,
+  area: Area,
+  options: CropOptions,
+  { signal, onProgress }: ExportCallbacks
+) => {
+  const checkCancelled = () => {
+    if (signal?.aborted) throw createCancelledError();
+  };
+  onProgress?.(0.1);
+  const canvas = await renderCrop(url, area, options);
+  checkCancelled();
+  onProgress?.(0.6);
+  const blob = await canvasToBlob(canvas, options.encoding);
+  checkCancelled();
+  onProgress?.(0.9);
+  return blob;
+};
+
+// Workers cannot decode SVG, so masks are drawn at the output size here and
+// handed over as a bitmap
+const toWorkerShape = async (
+  shape: CropShape | undefined,
+  size: Dimensions
+): Promise<WorkerShape | undefined> =>
+  shape?.type === "mask"
+    ? {
+        type: "mask",
+        mask: await createImageBitmap(await rasterizeMask(shape.mask, size)),
+      }
+    : shape;
+
+// Crops `area` of the source and encodes it like cropImage does
+export const exportCrop = async (
+  source: ExportSource,
+  area: Area,
+  options: CropOptions = {},
+  callbacks: ExportCallbacks = {}
+): Promise<Blob> => {
+  const { signal, onProgress } = callbacks;
+  if (signal?.aborted) throw createCancelledError();
+  assertCropSize(area, options.output);
+
+  const fallback = () => cropOnMainThread(source.url, area, options, callbacks);
+  const exportWorker = getWorker();
+  const shape = exportWorker
+    ? await toWorkerShape(options.shape, options.output ?? area)
+    : undefined;
+
+  const encoded = exportWorker
+    ? await new Promise<Blob>((resolve, reject) => {
+        const id = nextId++;
+        const { metadata, dpi, ...encoding } = options.encoding ?? {};
+        jobs.set(id, { resolve, reject, onProgress, fallback });
+        signal?.addEventListener("abort", () => {
+          if (!jobs.delete(id)) return;
+          const cancel: ExportRequest = { type: "cancel", id };
+          exportWorker.postMessage(cancel);
+          reject(createCancelledError());
+        });
+        const request: ExportRequest = {
+          type: "export",
+          id,
+          source: source.file,
+          area,
+          options: { ...options, shape, encoding },
+        };
+        exportWorker.postMessage(
+          request,
+          shape?.type === "mask" ? [shape.mask] : []
+        );
+      })
+    : await fallback();
+
+  const blob = await writeImageMetadata(encoded, options.encoding);
+  if (signal?.aborted) throw createCancelledError();
+  onProgress?.(1);
+  return blob;
+};
@@ -0,0 +1,243 @@
+import {
+  createExportHandler,
+  ExportRequest,
+  ExportResponse,
+} from "./exportWorker.worker";
+import { DEFAULT_ADJUSTMENTS } from "./imageAdjustments";
+
+const createMockContext = () => ({
+  fillStyle: "",
+  fillRect: jest.fn(),
+  scale: jest.fn(),
+  translate: jest.fn(),
+  rotate: jest.fn(),
+  drawImage: jest.fn(),
+  globalCompositeOperation: "source-over",
+  setTransform: jest.fn(),
+  beginPath: jest.fn(),
+  ellipse: jest.fn(),
+  fill: jest.fn(),
+  save: jest.fn(),
+  restore: jest.fn(),
+  getImageData: jest.fn(),
+  putImageData: jest.fn(),
+  imageSmoothingQuality: "low",
+});
+
+const createBitmap = (width: number, height: number) =>
+  ({ width, height, close: jest.fn() } as unknown as ImageBitmap);
+
+const file = new Blob(["image"], { type: "image/jpeg" });
+const encoded = new Blob(["cropped"], { type: "image/png" });
+
+let context: ReturnType<typeof createMockContext>;
+let bitmap: ImageBitmap;
+let decode: jest.Mock;
+
+beforeEach(() => {
+  context = createMockContext();
+  bitmap = createBitmap(800, 600);
+  decode = jest.fn(async () => bitmap);
+  Object.defineProperty(window, "createImageBitmap", {
+    value: decode,
+    configurable: true,
+  });
+  jest
+    .spyOn(HTMLCanvasElement.prototype, "getContext")
+    .mockImplementation(() => context as unknown as CanvasRenderingContext2D);
+  jest
+    .spyOn(HTMLCanvasElement.prototype, "toBlob")
+    .mockImplementation((callback) => callback(encoded));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Sends the requests and resolves with every answer once `id` is answered
+const runHandler = (requests: ExportRequest[], id: number) =>
+  new Promise<ExportResponse[]>((resolve) => {
+    const responses: ExportResponse[] = [];
+    const handle = createExportHandler((response) => {
+      responses.push(response);
+      if (response.id === id && response.progress === undefined) {
+        resolve(responses);
+      }
+    });
+    requests.forEach(handle);
+  });
+
+const exportRequest = (
+  id: number,
+  options: Extract<ExportRequest, { type: "export" }>["options"] = {}
+): ExportRequest => ({
+  type: "export",
+  id,
+  source: file,
+  area: { x: 100, y: 50, width: 300, height: 200 },
+  options,
+});
+
+test("decodes the file upright and answers with the encoded crop", async () => {
+  const responses = await runHandler([exportRequest(1)], 1);
+
+  expect(decode).toHaveBeenCalledWith(file, {
+    imageOrientation: "from-image",
+  });
+  expect(context.translate).toHaveBeenCalledWith(-100, -50);
+  expect(context.drawImage).toHaveBeenCalledWith(bitmap, 0, 0);
+  expect(responses.map((response) => response.progress)).toEqual([
+    0.1,
+    0.3,
+    0.7,
+    0.9,
+    undefined,
+  ]);
+  expect(responses[responses.length - 1]).toEqual({ id: 1, blob: encoded });
+  expect(bitmap.close).toHaveBeenCalled();
+});
+
+test("reports images that cannot be decoded", async () => {
+  decode.mockRejectedValue(new Error("bad data"));
+
+  const responses = await runHandler([exportRequest(1)], 1);
+
+  expect(responses[responses.length - 1]).toEqual({
+    id: 1,
+    error: "The image could not be decoded",
+  });
+});
+
+test("drops cancelled jobs without answering them", async () => {
+  const responses = await runHandler(
+    [exportRequest(1), { type: "cancel", id: 1 }, exportRequest(2)],
+    2
+  );
+
+  expect(responses.every((response) => response.id === 2)).toBe(true);
+  expect(decode).toHaveBeenCalledTimes(1);
+});
+
+test("cuts shapes out with the engine before filling behind them", async () => {
+  await runHandler(
+    [
+      exportRequest(1, {
+        shape: { type: "ellipse" },
+        encoding: { background: "#ffffff" },
+      }),
+    ],
+    1
+  );
+
+  expect(context.ellipse).toHaveBeenCalledWith(
+    150,
+    100,
+    150,
+    100,
+    0,
+    0,
+    2 * Math.PI
+  );
+  expect(context.fill.mock.invocationCallOrder[0]).toBeLessThan(
+    context.fillRect.mock.invocationCallOrder[0]
+  );
+  expect(context.globalCompositeOperation).toBe("source-over");
+});
+
+test("stretches mask bitmaps over the output and closes them", async () => {
+  const mask = createBitmap(10, 10);
+
+  await runHandler(
+    [
+      exportRequest(1, {
+        output: { width: 150, height: 100 },
+        shape: { type: "mask", mask },
+      }),
+    ],
+    1
+  );
+
+  expect(context.drawImage).toHaveBeenCalledWith(mask, 0, 0, 150, 100);
+  expect(mask.close).toHaveBeenCalled();
+});
+
+test("pads worker exports with the engine before drawing the image", async () => {
+  await runHandler(
+    [
+      {
+        type: "export",
+        id: 1,
+        source: file,
+        area: { x: -100, y: 0, width: 1000, height: 600 },
+        options: { padding: { type: "color", color: "#ff0000" } },
+      },
+    ],
+    1
+  );
+
+  expect(context.fillRect).toHaveBeenCalledWith(-100, 0, 1000, 600);
+  expect(context.fillRect.mock.invocationCallOrder[0]).toBeLessThan(
+    context.drawImage.mock.invocationCallOrder[0]
+  );
+  expect(context.save).toHaveBeenCalledTimes(context.restore.mock.calls.length);
+});
+
+test("mirrors the image into the padding of worker exports", async () => {
+  await runHandler(
+    [
+      {
+        type: "export",
+        id: 1,
+        source: file,
+        area: { x: -100, y: 0, width: 1000, height: 600 },
+        options: { padding: { type: "mirror" } },
+      },
+    ],
+    1
+  );
+
+  // One reflected copy on each side, then the image itself
+  expect(context.drawImage).toHaveBeenCalledTimes(3);
+  expect(context.scale).toHaveBeenCalledWith(-1, 1);
+});
+
+test("adjusts worker exports with the engine before filling behind them", async () => {
+  const pixels = {
+    data: new Uint8ClampedArray([100, 50, 25, 255]),
+    width: 1,
+    height: 1,
+  };
+  context.getImageData.mockReturnValue(pixels);
+
+  await runHandler(
+    [
+      exportRequest(1, {
+        adjustments: { ...DEFAULT_ADJUSTMENTS, exposure: 1 },
+        encoding: { background: "#ffffff" },
+      }),
+    ],
+    1
+  );
+
+  expect(Array.from(pixels.data)).toEqual([200, 100, 50, 255]);
+  expect(context.putImageData.mock.invocationCallOrder[0]).toBeLessThan(
+    context.fillRect.mock.invocationCallOrder[0]
+  );
+});
+
+test("leaves pixels alone when the adjustments are the defaults", async () => {
+  await runHandler(
+    [
+      exportRequest(1, {
+        adjustments: DEFAULT_ADJUSTMENTS,
+        encoding: { background: "#ffffff" },
+      }),
+    ],
+    1
+  );
+
+  expect(context.getImageData).not.toHaveBeenCalled();
+  expect(context.fillRect.mock.invocationCallOrder[0]).toBeLessThan(
+    context.drawImage.mock.invocationCallOrder[0]
+  );
+});
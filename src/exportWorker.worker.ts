@@ -0,0 +1,114 @@
+// Runs the cropEngine pipeline for exports off the main thread. Jobs run one
+// at a time in the order they arrive, drawing on OffscreenCanvas.
+
+import {
+  Area,
+  canvasToBlob,
+  CropOptions,
+  CropShape,
+  DECODE_OPTIONS,
+  renderCrop,
+} from "./cropEngine";
+
+// Workers cannot decode SVG, so masks arrive already drawn as bitmaps
+export type WorkerShape =
+  | Exclude<CropShape, { type: "mask" }>
+  | { type: "mask"; mask: ImageBitmap };
+
+export type ExportRequest =
+  | {
+      type: "export";
+      id: number;
+      // The original file; decoded here, upright
+      source: Blob;
+      area: Area;
+      // Metadata is written on the main thread once the image is encoded
+      options: Omit<CropOptions, "shape"> & { shape?: WorkerShape };
+    }
+  | { type: "cancel"; id: number };
+
+export interface ExportResponse {
+  id: number;
+  progress?: number;
+  blob?: Blob;
+  error?: string;
+}
+
+const decodeImage = async (file: Blob) => {
+  try {
+    return await createImageBitmap(file, DECODE_OPTIONS);
+  } catch {
+    throw new Error("The image could not be decoded");
+  }
+};
+
+// Handles the requests of one page; answers go through `post`. Cancelled
+// jobs stop at their next progress report and get no answer.
+export const createExportHandler = (
+  post: (response: ExportResponse) => void
+) => {
+  const cancelled = new Set<number>();
+  let queue = Promise.resolve();
+
+  const exportCrop = async ({
+    id,
+    source,
+    area,
+    options,
+  }: Extract<ExportRequest, { type: "export" }>) => {
+    const report = (progress: number) => {
+      if (cancelled.has(id)) throw new Error("Export cancelled");
+      post({ id, progress });
+    };
+
+    try {
+      report(0.1);
+      const image = await decodeImage(source);
+      try {
+        report(0.3);
+        const canvas = await renderCrop(image, area, options);
+        report(0.7);
+        const blob = await canvasToBlob(canvas, options.encoding);
+        report(0.9);
+        return blob;
+      } finally {
+        image.close();
+      }
+    } finally {
+      if (options.shape?.type === "mask") options.shape.mask.close();
+    }
+  };
+
+  const run = async (request: Extract<ExportRequest, { type: "export" }>) => {
+    const { id } = request;
+    if (cancelled.delete(id)) return;
+    try {
+      const blob = await exportCrop(request);
+      if (!cancelled.delete(id)) post({ id, blob });
+    } catch (error) {
+      if (cancelled.delete(id)) return;
+      post({
+        id,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to encode the cropped image",
+      });
+    }
+  };
+
+  return (request: ExportRequest) => {
+    if (request.type === "cancel") {
+      cancelled.add(request.id);
+      return;
+    }
+    queue = queue.then(() => run(request));
+  };
+};
+
+// Only inside a worker, not when tests import this module
+if (typeof document === "undefined") {
+  const scope = globalThis as unknown as Worker;
+  const handle = createExportHandler((response) => scope.postMessage(response));
+  scope.onmessage = (event: MessageEvent<ExportRequest>) => handle(event.data);
+}
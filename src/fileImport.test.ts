@@ -0,0 +1,28 @@
+import { getRelativeFolder, summarizeNames } from "./fileImport";
+
+const withPath = (path: string) => {
+  const file = new File(["x"], path.split("/").pop() ?? "", {
+    type: "image/png",
+  });
+  Object.defineProperty(file, "relativePath", { value: path });
+  return file;
+};
+
+test("getRelativeFolder reads dropped folder paths", () => {
+  expect(getRelativeFolder(withPath("/trip/day 1/a.png"))).toBe("trip/day 1");
+  expect(getRelativeFolder(withPath("./a.png"))).toBeUndefined();
+  expect(getRelativeFolder(new File(["x"], "a.png"))).toBeUndefined();
+});
+
+test("getRelativeFolder reads folders chosen with the picker", () => {
+  const file = new File(["x"], "a.png");
+  Object.defineProperty(file, "webkitRelativePath", {
+    value: "assets/icons/a.png",
+  });
+  expect(getRelativeFolder(file)).toBe("assets/icons");
+});
+
+test("summarizeNames shortens long lists", () => {
+  expect(summarizeNames(["a.txt", "b.pdf"])).toBe("a.txt, b.pdf");
+  expect(summarizeNames(["a", "b", "c", "d", "e"])).toBe("a, b, c and 2 more");
+});
@@ -0,0 +1,23 @@
+// Helpers for files arriving by drop, paste or the file pickers.
+
+// Set by react-dropzone's file-selector on dropped files, e.g. "./a.jpg" for
+// a loose file or "/trip/day 1/a.jpg" inside a dropped folder
+type FileWithPath = File & { relativePath?: string };
+
+// Folder a file came from, relative to the dropped or chosen folder, e.g.
+// "trip/day 1"; undefined for loose files
+export const getRelativeFolder = (file: File): string | undefined => {
+  const path =
+    (file as FileWithPath).relativePath || file.webkitRelativePath || "";
+  const parts = path.split("/").filter((part) => part && part !== ".");
+  parts.pop();
+  return parts.length > 0 ? parts.join("/") : undefined;
+};
+
+export const isImageFile = (file: File) => file.type.startsWith("image/");
+
+// Short list of names for a report, e.g. "a.txt, b.pdf and 3 more"
+export const summarizeNames = (names: string[], max = 3) => {
+  if (names.length <= max) return names.join(", ");
+  return `${names.slice(0, max).join(", ")} and ${names.length - max} more`;
+};
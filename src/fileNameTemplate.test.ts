@@ -0,0 +1,69 @@
+import {
+  FileNameValues,
+  makeUniqueName,
+  renderFileName,
+  sanitizeFileName,
+} from "./fileNameTemplate";
+
+const values: FileNameValues = {
+  sourceName: "beach.photo.PNG",
+  width: 1600,
+  height: 900,
+  profile: "Blog hero",
+  index: 3,
+  date: new Date(2024, 0, 5, 9, 7, 3),
+};
+
+test("renderFileName replaces every token", () => {
+  expect(
+    renderFileName(
+      "{name}_{ext}_{width}x{height}_{ratio}_{profile}_{index}_{date}_{time}",
+      values,
+      "image/jpeg"
+    )
+  ).toBe("beach.photo_PNG_1600x900_16x9_Blog hero_3_2024-01-05_09-07-03.jpg");
+});
+
+test("renderFileName keeps the default name of earlier versions", () => {
+  expect(renderFileName("cropped-{name}", values, "image/webp")).toBe(
+    "cropped-beach.photo.webp"
+  );
+});
+
+test("renderFileName flattens the imported folder path", () => {
+  expect(
+    renderFileName(
+      "{folder}-{name}",
+      { ...values, folder: "trip/day 1" },
+      "image/png"
+    )
+  ).toBe("trip-day 1-beach.photo.png");
+});
+
+test("renderFileName leaves unknown tokens visible", () => {
+  expect(renderFileName("{name}-{size}", values, "image/png")).toBe(
+    "beach.photo-{size}.png"
+  );
+});
+
+test("renderFileName drops empty tokens without breaking the name", () => {
+  expect(
+    renderFileName("{profile}", { ...values, profile: undefined }, "image/png")
+  ).toBe("image.png");
+});
+
+test("sanitizeFileName removes characters file systems reject", () => {
+  expect(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j')).toBe("a-b-c-d-e-f-g-h-i-j");
+  expect(sanitizeFileName("  ..hidden. ")).toBe("hidden");
+  expect(sanitizeFileName("tab\there")).toBe("tab-here");
+  expect(sanitizeFileName("x".repeat(300))).toHaveLength(200);
+});
+
+test("makeUniqueName numbers repeated names", () => {
+  const taken = new Set<string>();
+  expect(makeUniqueName("a.jpg", taken)).toBe("a.jpg");
+  expect(makeUniqueName("a.jpg", taken)).toBe("a (2).jpg");
+  expect(makeUniqueName("a.jpg", taken)).toBe("a (3).jpg");
+  expect(makeUniqueName("b", taken)).toBe("b");
+  expect(makeUniqueName("b", taken)).toBe("b (2)");
+});
@@ -0,0 +1,109 @@
+// Download names built from a template such as "{name}-{width}x{height}".
+// Tokens are replaced, the result is made safe for every common file system
+// and the export format's extension is added.
+
+import { formatRatio } from "./aspectPresets";
+import { ExportFormat, getFormatInfo } from "./exportSettings";
+
+export const DEFAULT_FILE_NAME_TEMPLATE = "cropped-{name}";
+
+export interface FileNameValues {
+  // Source file name, with its extension
+  sourceName: string;
+  // Folder of the source in a folder import, e.g. "trip/day 1"
+  folder?: string;
+  // Size of the exported image
+  width: number;
+  height: number;
+  profile?: string;
+  // 1-based position of the image in the export
+  index: number;
+  date: Date;
+}
+
+export const FileNameTokens: { token: string; description: string }[] = [
+  { token: "{name}", description: "Source file name without extension" },
+  { token: "{ext}", description: "Source file extension" },
+  { token: "{folder}", description: "Imported folder path, e.g. trip-day 1" },
+  { token: "{width}", description: "Exported width in pixels" },
+  { token: "{height}", description: "Exported height in pixels" },
+  { token: "{ratio}", description: "Aspect ratio, e.g. 16x9" },
+  { token: "{profile}", description: "Export profile name" },
+  { token: "{index}", description: "Position in the export, from 1" },
+  { token: "{date}", description: "Export date, YYYY-MM-DD" },
+  { token: "{time}", description: "Export time, HH-MM-SS" },
+];
+
+// Longest name kept, before the extension
+const MAX_NAME_LENGTH = 200;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const splitExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0
+    ? { base: fileName.slice(0, dot), ext: fileName.slice(dot + 1) }
+    : { base: fileName, ext: "" };
+};
+
+// Replaces characters Windows, macOS or Linux reject in file names and
+// trims what would be hidden or dropped, e.g. leading dots or trailing spaces
+export const sanitizeFileName = (name: string) =>
+  name
+    // eslint-disable-next-line no-control-regex
+    .replace(/[<>:"/\\|?*\u0000-\u001f]+/g, "-")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+|[\s.]+$/g, "")
+    .slice(0, MAX_NAME_LENGTH)
+    .trim() || "image";
+
+export const renderFileName = (
+  template: string,
+  values: FileNameValues,
+  format: ExportFormat
+) => {
+  const { base, ext } = splitExtension(values.sourceName);
+  const { date } = values;
+  const tokens: Record<string, string> = {
+    name: base,
+    ext,
+    folder: (values.folder ?? "").split("/").join("-"),
+    width: String(Math.round(values.width)),
+    height: String(Math.round(values.height)),
+    ratio:
+      values.height > 0
+        ? formatRatio(values.width / values.height).replace(":", "x")
+        : "",
+    profile: values.profile ?? "",
+    index: String(values.index),
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+      date.getDate()
+    )}`,
+    time: `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(
+      date.getSeconds()
+    )}`,
+  };
+  // Unknown tokens are left as typed so mistakes show up in the preview
+  const name = template.replace(/\{(\w+)\}/g, (match, token: string) =>
+    token in tokens ? tokens[token] : match
+  );
+  // The extension is added afterwards so it cannot be cut off or replaced
+  return `${sanitizeFileName(name)}.${getFormatInfo(format).extension}`;
+};
+
+// Appends " (2)", " (3)"... before the extension for names already taken, and
+// records the returned name as taken
+export const makeUniqueName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) {
+    taken.add(name);
+    return name;
+  }
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : "";
+  let counter = 2;
+  while (taken.has(`${base} (${counter})${ext}`)) counter++;
+  const unique = `${base} (${counter})${ext}`;
+  taken.add(unique);
+  return unique;
+};
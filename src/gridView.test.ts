@@ -0,0 +1,124 @@
+import {
+  applyGridView,
+  DEFAULT_GRID_VIEW,
+  getRangeIds,
+  getViewNeighbours,
+  parseGridView,
+  serializeGridView,
+} from "./gridView";
+import { ImageData } from "./types";
+
+const createImage = (
+  id: string,
+  name: string,
+  size: number,
+  extra: Partial<ImageData> = {}
+): ImageData => ({
+  id,
+  file: new File([], name),
+  url: "",
+  name,
+  size,
+  cropped: false,
+  cropHistory: [],
+  ...extra,
+});
+
+const images = [
+  createImage("a", "photo10.jpg", 300, {
+    cropped: true,
+    dimensions: { width: 100, height: 100 },
+  }),
+  createImage("b", "photo2.jpg", 100),
+  createImage("c", "Beach.png", 200, {
+    dimensions: { width: 400, height: 300 },
+    folder: "summer/day 1",
+  }),
+];
+
+const ids = (list: ImageData[]) => list.map((image) => image.id);
+
+test("applyGridView sorts by each key in both directions", () => {
+  expect(ids(applyGridView(images, DEFAULT_GRID_VIEW))).toEqual([
+    "a",
+    "b",
+    "c",
+  ]);
+  expect(
+    ids(applyGridView(images, { ...DEFAULT_GRID_VIEW, sort: "name" }))
+  ).toEqual(["c", "b", "a"]);
+  expect(
+    ids(
+      applyGridView(images, {
+        ...DEFAULT_GRID_VIEW,
+        sort: "size",
+        direction: "desc",
+      })
+    )
+  ).toEqual(["a", "c", "b"]);
+  // Images without a known size stay last either way
+  expect(
+    ids(applyGridView(images, { ...DEFAULT_GRID_VIEW, sort: "dimensions" }))
+  ).toEqual(["a", "c", "b"]);
+  expect(
+    ids(
+      applyGridView(images, {
+        ...DEFAULT_GRID_VIEW,
+        sort: "dimensions",
+        direction: "desc",
+      })
+    )
+  ).toEqual(["c", "a", "b"]);
+});
+
+test("applyGridView filters by status and searches names and folders", () => {
+  expect(
+    ids(applyGridView(images, { ...DEFAULT_GRID_VIEW, status: "uncropped" }))
+  ).toEqual(["b", "c"]);
+  expect(
+    ids(applyGridView(images, { ...DEFAULT_GRID_VIEW, search: " PHOTO" }))
+  ).toEqual(["a", "b"]);
+  expect(
+    ids(applyGridView(images, { ...DEFAULT_GRID_VIEW, search: "summer" }))
+  ).toEqual(["c"]);
+});
+
+test("getViewNeighbours steps through the images the view shows", () => {
+  const byName = { ...DEFAULT_GRID_VIEW, sort: "name" as const };
+  const neighbours = (view: typeof byName, id: string) => {
+    const { previous, next } = getViewNeighbours(images, view, id);
+    return [previous?.id, next?.id];
+  };
+
+  expect(neighbours(byName, "b")).toEqual(["c", "a"]);
+  expect(neighbours(byName, "c")).toEqual([undefined, "b"]);
+
+  const uncropped = { ...byName, status: "uncropped" as const };
+  expect(neighbours(uncropped, "b")).toEqual(["c", undefined]);
+  // Hidden by the filter, but still placed by name
+  expect(neighbours(uncropped, "a")).toEqual(["b", undefined]);
+  expect(neighbours(uncropped, "gone")).toEqual([undefined, undefined]);
+});
+
+test("grid views round-trip through the URL", () => {
+  const view = {
+    sort: "size",
+    direction: "desc",
+    status: "cropped",
+    search: "beach day",
+  } as const;
+  const query = serializeGridView(view, "?debug=1");
+  expect(query).toBe("?debug=1&sort=size&dir=desc&status=cropped&q=beach+day");
+  expect(parseGridView(query)).toEqual(view);
+
+  expect(serializeGridView(DEFAULT_GRID_VIEW, query)).toBe("?debug=1");
+  expect(parseGridView("?sort=bogus&status=nope")).toEqual(DEFAULT_GRID_VIEW);
+});
+
+test("getRangeIds selects between the anchor and the target", () => {
+  const order = ["a", "b", "c", "d"];
+  expect(getRangeIds(order, "d", "b")).toEqual(["b", "c", "d"]);
+  expect(getRangeIds(order, "a", "c")).toEqual(["a", "b", "c"]);
+  expect(getRangeIds(order, null, "c")).toEqual(["c"]);
+  expect(getRangeIds(order, "gone", "c")).toEqual(["c"]);
+});
@@ -0,0 +1,169 @@
+// Sorting, filtering and search for the image grid, and their round trip
+// through the page URL so a view can be bookmarked.
+
+import { ImageData } from "./types";
+
+export type GridSortKey = "uploaded" | "name" | "size" | "dimensions";
+export type GridSortDirection = "asc" | "desc";
+export type GridStatusFilter = "all" | "cropped" | "uncropped";
+
+export interface GridView {
+  sort: GridSortKey;
+  direction: GridSortDirection;
+  status: GridStatusFilter;
+  search: string;
+}
+
+export const DEFAULT_GRID_VIEW: GridView = {
+  sort: "uploaded",
+  direction: "asc",
+  status: "all",
+  search: "",
+};
+
+export const GridSortOptions: { value: GridSortKey; label: string }[] = [
+  { value: "uploaded", label: "Upload time" },
+  { value: "name", label: "Name" },
+  { value: "size", label: "File size" },
+  { value: "dimensions", label: "Dimensions" },
+];
+
+export const GridStatusOptions: { value: GridStatusFilter; label: string }[] = [
+  { value: "all", label: "All images" },
+  { value: "cropped", label: "Cropped" },
+  { value: "uncropped", label: "Not cropped" },
+];
+
+const nameCollator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+const getPixelCount = (image: ImageData) =>
+  image.dimensions ? image.dimensions.width * image.dimensions.height : 0;
+
+const compareImages = (
+  a: ImageData,
+  b: ImageData,
+  sort: GridSortKey
+): number => {
+  switch (sort) {
+    case "name":
+      return nameCollator.compare(a.name, b.name);
+    case "size":
+      return a.size - b.size;
+    case "dimensions":
+      return getPixelCount(a) - getPixelCount(b);
+    default:
+      return 0;
+  }
+};
+
+// Images matching the view, in its order. "uploaded" keeps the workspace
+// order, which is the order images were added.
+export const applyGridView = (
+  images: ImageData[],
+  { sort, direction, status, search }: GridView
+): ImageData[] => {
+  const query = search.trim().toLowerCase();
+  const visible = images.filter(
+    (image) =>
+      (status === "all" || image.cropped === (status === "cropped")) &&
+      (!query ||
+        image.name.toLowerCase().includes(query) ||
+        !!image.folder?.toLowerCase().includes(query))
+  );
+  const sign = direction === "asc" ? 1 : -1;
+  return visible
+    .map((image, index) => ({ image, index }))
+    .sort((a, b) => {
+      // Images without a known size stay last in both directions
+      if (sort === "dimensions") {
+        const missing =
+          Number(!a.image.dimensions) - Number(!b.image.dimensions);
+        if (missing !== 0) return missing;
+      }
+      return (
+        sign * compareImages(a.image, b.image, sort) ||
+        sign * (a.index - b.index)
+      );
+    })
+    .map(({ image }) => image);
+};
+
+// The images before and after `imageId` in the view, for stepping through
+// them in the cropper. An image the view no longer shows, such as one just
+// cropped under the "Not cropped" filter, keeps its place in the sort order.
+export const getViewNeighbours = (
+  images: ImageData[],
+  view: GridView,
+  imageId?: string
+): { previous?: ImageData; next?: ImageData } => {
+  const visibleIds = new Set(
+    applyGridView(images, view).map((image) => image.id)
+  );
+  const ordered = applyGridView(images, { ...view, status: "all", search: "" });
+  const index = ordered.findIndex((image) => image.id === imageId);
+  if (index < 0) return {};
+  const isVisible = (image: ImageData) => visibleIds.has(image.id);
+  return {
+    previous: ordered.slice(0, index).reverse().find(isVisible),
+    next: ordered.slice(index + 1).find(isVisible),
+  };
+};
+
+const URL_KEYS = {
+  sort: "sort",
+  direction: "dir",
+  status: "status",
+  search: "q",
+} as const;
+
+const pick = <T extends string>(
+  value: string | null,
+  options: { value: T }[],
+  fallback: T
+): T => options.find((option) => option.value === value)?.value ?? fallback;
+
+export const parseGridView = (search: string): GridView => {
+  const params = new URLSearchParams(search);
+  return {
+    sort: pick(
+      params.get(URL_KEYS.sort),
+      GridSortOptions,
+      DEFAULT_GRID_VIEW.sort
+    ),
+    direction: params.get(URL_KEYS.direction) === "desc" ? "desc" : "asc",
+    status: pick(
+      params.get(URL_KEYS.status),
+      GridStatusOptions,
+      DEFAULT_GRID_VIEW.status
+    ),
+    search: params.get(URL_KEYS.search) ?? "",
+  };
+};
+
+// Query string for the view, leaving out defaults and keeping unrelated
+// parameters
+export const serializeGridView = (view: GridView, search = ""): string => {
+  const params = new URLSearchParams(search);
+  (Object.keys(URL_KEYS) as (keyof GridView)[]).forEach((key) => {
+    if (view[key] === DEFAULT_GRID_VIEW[key]) params.delete(URL_KEYS[key]);
+    else params.set(URL_KEYS[key], view[key]);
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+// Ids from `anchorId` to `targetId` inclusive, in the order shown; just the
+// target when the anchor is no longer visible
+export const getRangeIds = (
+  orderedIds: string[],
+  anchorId: string | null,
+  targetId: string
+): string[] => {
+  const start = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const end = orderedIds.indexOf(targetId);
+  if (start < 0 || end < 0) return [targetId];
+  return orderedIds.slice(Math.min(start, end), Math.max(start, end) + 1);
+};
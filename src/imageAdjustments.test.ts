@@ -0,0 +1,69 @@
+import {
+  applyAdjustments,
+  DEFAULT_ADJUSTMENTS,
+  getColorMatrix,
+  getSharpenKernel,
+  isDefaultAdjustments,
+} from "./imageAdjustments";
+
+const IDENTITY_ROWS = [
+  1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0,
+];
+
+const adjust = (pixel: number[], changes: object) => {
+  const pixels = {
+    data: new Uint8ClampedArray(pixel),
+    width: 1,
+    height: 1,
+  };
+  applyAdjustments(pixels, { ...DEFAULT_ADJUSTMENTS, ...changes });
+  return Array.from(pixels.data);
+};
+
+test("default adjustments leave pixels unchanged", () => {
+  expect(isDefaultAdjustments(DEFAULT_ADJUSTMENTS)).toBe(true);
+  expect(isDefaultAdjustments(undefined)).toBe(true);
+  expect(isDefaultAdjustments({ ...DEFAULT_ADJUSTMENTS, sepia: 10 })).toBe(
+    false
+  );
+  getColorMatrix(DEFAULT_ADJUSTMENTS).forEach((value, index) =>
+    expect(value).toBeCloseTo(IDENTITY_ROWS[index])
+  );
+  expect(getSharpenKernel(0)).toBeNull();
+  expect(adjust([10, 120, 250, 128], {})).toEqual([10, 120, 250, 128]);
+});
+
+test("color adjustments change the pixel and keep its alpha", () => {
+  expect(adjust([100, 50, 25, 200], { exposure: 1 })).toEqual([
+    200, 100, 50, 200,
+  ]);
+  expect(adjust([100, 100, 100, 255], { brightness: 100 })).toEqual([
+    164, 164, 164, 255,
+  ]);
+  expect(adjust([64, 128, 192, 255], { contrast: -100 })).toEqual([
+    128, 128, 128, 255,
+  ]);
+  const [r, g, b] = adjust([200, 40, 90, 255], { grayscale: 100 });
+  expect(r).toBe(g);
+  expect(g).toBe(b);
+  const [warmRed, , warmBlue] = adjust([100, 100, 100, 255], {
+    temperature: 100,
+  });
+  expect(warmRed).toBeGreaterThan(100);
+  expect(warmBlue).toBeLessThan(100);
+});
+
+test("sharpening raises local contrast around edges", () => {
+  const row = [50, 50, 200];
+  const pixels = {
+    data: new Uint8ClampedArray(
+      row.flatMap((value) => [value, value, value, 255])
+    ),
+    width: 3,
+    height: 1,
+  };
+  applyAdjustments(pixels, { ...DEFAULT_ADJUSTMENTS, sharpen: 50 });
+  expect(pixels.data[4]).toBeLessThan(50);
+  expect(pixels.data[8]).toBeGreaterThan(200);
+  expect(pixels.data[0]).toBe(50);
+});
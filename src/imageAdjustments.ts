@@ -0,0 +1,187 @@
+// Tonal and color adjustments applied to exports. Every adjustment except
+// sharpening folds into one color matrix, so the cropper can preview it with
+// an SVG filter and the export canvas can apply the very same numbers.
+
+export interface ImageAdjustments {
+  // -100 to 100
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // Stops, -2 to 2
+  exposure: number;
+  // 0 to 100
+  grayscale: number;
+  sepia: number;
+  sharpen: number;
+  // -100 (cooler) to 100 (warmer)
+  temperature: number;
+}
+
+export type AdjustmentKey = keyof ImageAdjustments;
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  grayscale: 0,
+  sepia: 0,
+  sharpen: 0,
+  temperature: 0,
+};
+
+export const AdjustmentControls: {
+  key: AdjustmentKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: "exposure", label: "Exposure", min: -2, max: 2, step: 0.1 },
+  { key: "brightness", label: "Brightness", min: -100, max: 100, step: 1 },
+  { key: "contrast", label: "Contrast", min: -100, max: 100, step: 1 },
+  { key: "saturation", label: "Saturation", min: -100, max: 100, step: 1 },
+  { key: "temperature", label: "Temperature", min: -100, max: 100, step: 1 },
+  { key: "grayscale", label: "Grayscale", min: 0, max: 100, step: 1 },
+  { key: "sepia", label: "Sepia", min: 0, max: 100, step: 1 },
+  { key: "sharpen", label: "Sharpen", min: 0, max: 100, step: 1 },
+];
+
+export const isDefaultAdjustments = (adjustments?: ImageAdjustments) =>
+  !adjustments ||
+  AdjustmentControls.every(
+    ({ key }) => adjustments[key] === DEFAULT_ADJUSTMENTS[key]
+  );
+
+// 5 × 5 affine color matrices on values from 0 to 1, row-major
+type Matrix = number[];
+
+const IDENTITY: Matrix = Array.from({ length: 25 }, (_, index) =>
+  index % 6 === 0 ? 1 : 0
+);
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  IDENTITY.map((_, index) => {
+    const row = Math.floor(index / 5);
+    const column = index % 5;
+    let sum = 0;
+    for (let k = 0; k < 5; k++) sum += a[row * 5 + k] * b[k * 5 + column];
+    return sum;
+  });
+
+const mix = (matrix: Matrix, amount: number): Matrix =>
+  IDENTITY.map((value, index) => value + (matrix[index] - value) * amount);
+
+const fromRows = (rows: number[][]): Matrix => [
+  ...rows.flatMap((row) => [...row, 0, 0]),
+  ...IDENTITY.slice(15),
+];
+
+const scale = (r: number, g: number, b: number): Matrix =>
+  fromRows([
+    [r, 0, 0],
+    [0, g, 0],
+    [0, 0, b],
+  ]);
+
+const offset = (value: number): Matrix =>
+  IDENTITY.map((identity, index) =>
+    index % 5 === 4 && index < 15 ? value : identity
+  );
+
+// Rec. 709 luma weights, as used by the CSS saturate() filter
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+const saturate = (amount: number): Matrix =>
+  mix(fromRows([LUMA, LUMA, LUMA]), 1 - amount);
+
+const SEPIA = fromRows([
+  [0.393, 0.769, 0.189],
+  [0.349, 0.686, 0.168],
+  [0.272, 0.534, 0.131],
+]);
+
+// Color matrix for the adjustments as 20 values, the four output rows of
+// red, green, blue and alpha in the layout of SVG feColorMatrix. Offsets are
+// fractions of full intensity.
+export const getColorMatrix = ({
+  brightness,
+  contrast,
+  saturation,
+  exposure,
+  grayscale,
+  sepia,
+  temperature,
+}: ImageAdjustments): number[] => {
+  const gain = 2 ** exposure;
+  const warmth = temperature / 500;
+  const contrastScale = 1 + contrast / 100;
+  // Applied from the last entry to the first
+  const steps = [
+    mix(SEPIA, sepia / 100),
+    saturate(1 - grayscale / 100),
+    saturate(1 + saturation / 100),
+    multiply(
+      offset((1 - contrastScale) / 2),
+      scale(contrastScale, contrastScale, contrastScale)
+    ),
+    offset(brightness / 400),
+    scale(1 + warmth, 1, 1 - warmth),
+    scale(gain, gain, gain),
+  ];
+  return steps.reduce(multiply, IDENTITY).slice(0, 20);
+};
+
+// 3 × 3 unsharp kernel, or null when nothing is sharpened
+export const getSharpenKernel = (sharpen: number): number[] | null => {
+  if (sharpen <= 0) return null;
+  const amount = sharpen / 100;
+  return [0, -amount, 0, -amount, 1 + 4 * amount, -amount, 0, -amount, 0];
+};
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Applies the adjustments to canvas pixel data in place. Alpha is left as
+// it is and edges repeat their outermost pixels, like the SVG preview.
+export const applyAdjustments = (
+  pixels: Pixels,
+  adjustments: ImageAdjustments
+) => {
+  const { data, width, height } = pixels;
+  const m = getColorMatrix(adjustments);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+    data[i] = m[0] * r + m[1] * g + m[2] * b + m[3] * a + m[4] * 255;
+    data[i + 1] = m[5] * r + m[6] * g + m[7] * b + m[8] * a + m[9] * 255;
+    data[i + 2] = m[10] * r + m[11] * g + m[12] * b + m[13] * a + m[14] * 255;
+  }
+
+  const kernel = getSharpenKernel(adjustments.sharpen);
+  if (!kernel) return;
+  const source = data.slice();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        let sum = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          const sy = Math.min(height - 1, Math.max(0, y + ky));
+          for (let kx = -1; kx <= 1; kx++) {
+            const sx = Math.min(width - 1, Math.max(0, x + kx));
+            sum +=
+              kernel[(ky + 1) * 3 + kx + 1] *
+              source[(sy * width + sx) * 4 + channel];
+          }
+        }
+        data[index + channel] = sum;
+      }
+    }
+  }
+};
@@ -0,0 +1,148 @@
+import {
+  canvasToBlob,
+  Dimensions,
+  ImageTransform,
+  loadImage,
+  Point,
+  rotateSize,
+} from "./cropEngine";
+
+export const getImageDimensions = async (url: string): Promise<Dimensions> => {
+  const image = await loadImage(url);
+  return { width: image.naturalWidth, height: image.naturalHeight };
+};
+
+// CSS transform for react-easy-crop's media element; mirrors the canvas
+// operations in renderCrop so the preview matches the export
+export const getCropperTransform = (
+  crop: Point,
+  zoom: number,
+  { rotation, flipHorizontal, flipVertical }: ImageTransform
+) =>
+  [
+    `translate(${crop.x}px, ${crop.y}px)`,
+    `rotate(${rotation}deg)`,
+    `scale(${zoom})`,
+    `scaleX(${flipHorizontal ? -1 : 1})`,
+    `scaleY(${flipVertical ? -1 : 1})`,
+  ].join(" ");
+
+// Keeps a react-easy-crop position inside the media, the same way the
+// cropper limits drags. Sizes are in screen pixels.
+export const restrictCropPosition = (
+  position: Point,
+  mediaSize: Dimensions,
+  cropSize: Dimensions,
+  zoom: number,
+  rotation = 0
+): Point => {
+  const { width, height } = rotateSize(
+    mediaSize.width,
+    mediaSize.height,
+    rotation
+  );
+  const limit = (value: number, media: number, crop: number) => {
+    const max = Math.abs((media * zoom) / 2 - crop / 2);
+    return Math.min(max, Math.max(-max, value));
+  };
+  return {
+    x: limit(position.x, width, cropSize.width),
+    y: limit(position.y, height, cropSize.height),
+  };
+};
+
+// Small JPEG data URL of an exported image, used for history previews
+export const createThumbnail = async (
+  blob: Blob,
+  maxSize = 160
+): Promise<string> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(
+      1,
+      maxSize / Math.max(image.naturalWidth, image.naturalHeight)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Browsers that understand image-orientation also apply EXIF orientation to
+// <img> elements and canvas drawImage by default
+const appliesExifOrientation = () =>
+  typeof CSS !== "undefined" &&
+  typeof CSS.supports === "function" &&
+  CSS.supports("image-orientation", "from-image");
+
+// Canvas transforms that turn a stored image upright, indexed by the EXIF
+// orientation value
+const orientationMatrices: Record<
+  number,
+  (width: number, height: number) => number[]
+> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],
+  3: (w, h) => [-1, 0, 0, -1, w, h],
+  4: (_, h) => [1, 0, 0, -1, 0, h],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, h) => [0, 1, -1, 0, h, 0],
+  7: (w, h) => [0, -1, -1, 0, h, w],
+  8: (w) => [0, -1, 1, 0, 0, w],
+};
+
+// Object URL of the image as it should be displayed. Where the browser does
+// not honour EXIF orientation itself, the file is redrawn upright so the
+// preview and the exported crop work on the same pixels.
+export const createUprightUrl = async (
+  file: Blob,
+  orientation = 1
+): Promise<string> => {
+  const getMatrix = orientationMatrices[orientation];
+  if (!getMatrix || appliesExifOrientation()) {
+    return URL.createObjectURL(file);
+  }
+
+  const fileUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(fileUrl);
+    const { naturalWidth: width, naturalHeight: height } = image;
+    const swapsAxes = orientation >= 5;
+    const canvas = document.createElement("canvas");
+    canvas.width = swapsAxes ? height : width;
+    canvas.height = swapsAxes ? width : height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+
+    const [a, b, c, d, e, f] = getMatrix(width, height);
+    ctx.setTransform(a, b, c, d, e, f);
+    ctx.drawImage(image, 0, 0);
+    const upright = await canvasToBlob(canvas, {
+      type: "image/jpeg",
+      quality: 0.95,
+    });
+    return URL.createObjectURL(upright);
+  } catch {
+    return URL.createObjectURL(file);
+  } finally {
+    URL.revokeObjectURL(fileUrl);
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+};
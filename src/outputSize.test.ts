@@ -0,0 +1,97 @@
+import {
+  DEFAULT_OUTPUT_SETTINGS,
+  getLockedRatio,
+  getOutputDpi,
+  getSavedOutputSettings,
+  isUpscaling,
+  OutputSettings,
+  resolveOutputSize,
+} from "./outputSize";
+
+const area = { x: 0, y: 0, width: 4000, height: 3000 };
+
+const settings = (changes: Partial<OutputSettings>): OutputSettings => ({
+  ...DEFAULT_OUTPUT_SETTINGS,
+  ...changes,
+});
+
+test("resolveOutputSize keeps the crop size by default", () => {
+  expect(resolveOutputSize(DEFAULT_OUTPUT_SETTINGS, area)).toBeUndefined();
+});
+
+test("resolveOutputSize handles pixel based modes", () => {
+  expect(
+    resolveOutputSize(
+      settings({ mode: "exact", width: 800, height: 600 }),
+      area
+    )
+  ).toEqual({ width: 800, height: 600 });
+  expect(
+    resolveOutputSize(settings({ mode: "maxEdge", maxEdge: 1000 }), area)
+  ).toEqual({ width: 1000, height: 750 });
+  expect(
+    resolveOutputSize(settings({ mode: "maxEdge", maxEdge: 8000 }), area)
+  ).toEqual({ width: 4000, height: 3000 });
+  expect(
+    resolveOutputSize(settings({ mode: "percent", percent: 25 }), area)
+  ).toEqual({ width: 1000, height: 750 });
+});
+
+test("resolveOutputSize converts print sizes to pixels", () => {
+  const print = settings({ mode: "print", printWidth: 6, printHeight: 4 });
+  expect(resolveOutputSize(print, area)).toEqual({ width: 1800, height: 1200 });
+  expect(
+    resolveOutputSize(
+      { ...print, printWidth: 15.24, printHeight: 10.16, unit: "cm" },
+      area
+    )
+  ).toEqual({ width: 1800, height: 1200 });
+  expect(getOutputDpi(print)).toBe(300);
+  expect(getOutputDpi(DEFAULT_OUTPUT_SETTINGS)).toBeUndefined();
+});
+
+test("getLockedRatio only locks modes with a fixed shape", () => {
+  expect(getLockedRatio(settings({ mode: "exact" }))).toBeCloseTo(1200 / 630);
+  expect(getLockedRatio(settings({ mode: "print" }))).toBeCloseTo(1.5);
+  expect(getLockedRatio(settings({ mode: "maxEdge" }))).toBeNull();
+});
+
+test("isUpscaling compares the output with the crop", () => {
+  expect(isUpscaling(area, { width: 8000, height: 6000 })).toBe(true);
+  expect(isUpscaling(area, { width: 2000, height: 1500 })).toBe(false);
+  expect(isUpscaling(area)).toBe(false);
+});
+
+test("getSavedOutputSettings restores the export options of an entry", () => {
+  const saved = settings({ mode: "percent", percent: 50 });
+  const restored = getSavedOutputSettings(
+    { outputSettings: saved, output: { width: 2000, height: 1500 } },
+    DEFAULT_OUTPUT_SETTINGS
+  );
+
+  expect(restored).toBe(saved);
+  expect(resolveOutputSize(restored, area)).toEqual({
+    width: 2000,
+    height: 1500,
+  });
+});
+
+test("getSavedOutputSettings rebuilds older entries from their output", () => {
+  const current = settings({ mode: "maxEdge" });
+  const exact = getSavedOutputSettings(
+    { output: { width: 1200, height: 630 } },
+    current
+  );
+  expect(resolveOutputSize(exact, area)).toEqual({ width: 1200, height: 630 });
+  expect(getOutputDpi(exact)).toBeUndefined();
+
+  const print = getSavedOutputSettings(
+    { output: { width: 1800, height: 1200 }, dpi: 300 },
+    current
+  );
+  expect(resolveOutputSize(print, area)).toEqual({ width: 1800, height: 1200 });
+  expect(getOutputDpi(print)).toBe(300);
+
+  const original = getSavedOutputSettings({}, current);
+  expect(resolveOutputSize(original, area)).toBeUndefined();
+});
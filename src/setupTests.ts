@@ -3,3 +3,17 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import "@testing-library/jest-dom"
+
+// Jest cannot parse the import.meta that bundles the workers, and jsdom has
+// no workers to run them anyway
+jest.mock("./createExportWorker", () => ({
+  createExportWorker: () => {
+    throw new Error("Workers are not available in tests")
+  },
+}))
+
+jest.mock("./createThumbnailWorker", () => ({
+  createThumbnailWorker: () => {
+    throw new Error("Workers are not available in tests")
+  },
+}))
@@ -0,0 +1,64 @@
+import { computeSaliency, findCropCandidates } from "./smartCrop";
+
+// Flat grey image with a saturated red square
+const createImage = (
+  width: number,
+  height: number,
+  square: { x: number; y: number; size: number }
+) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const inSquare =
+        x >= square.x &&
+        x < square.x + square.size &&
+        y >= square.y &&
+        y < square.y + square.size;
+      data.set(inSquare ? [220, 30, 30, 255] : [128, 128, 128, 255], i);
+    }
+  }
+  return data;
+};
+
+test("computeSaliency is flat on a plain image and high on detail", () => {
+  const saliency = computeSaliency(
+    createImage(20, 20, { x: 8, y: 8, size: 4 }),
+    20,
+    20
+  );
+
+  expect(saliency[0]).toBe(0);
+  expect(saliency[8 * 20 + 8]).toBeGreaterThan(0.3);
+});
+
+test("findCropCandidates keeps the subject inside the window", () => {
+  const width = 80;
+  const height = 40;
+  const saliency = computeSaliency(
+    createImage(width, height, { x: 60, y: 14, size: 10 }),
+    width,
+    height
+  );
+
+  const [best] = findCropCandidates(saliency, width, height, 1);
+
+  expect(best.width).toBe(best.height);
+  expect(best.x).toBeLessThanOrEqual(60);
+  expect(best.x + best.width).toBeGreaterThanOrEqual(70);
+  expect(best.y).toBeLessThanOrEqual(14);
+  expect(best.y + best.height).toBeGreaterThanOrEqual(24);
+});
+
+test("findCropCandidates returns distinct alternatives", () => {
+  const saliency = computeSaliency(
+    createImage(80, 40, { x: 10, y: 10, size: 10 }),
+    80,
+    40
+  );
+
+  const candidates = findCropCandidates(saliency, 80, 40, 1, 3);
+
+  expect(candidates).toHaveLength(3);
+  expect(new Set(candidates.map((area) => `${area.x},${area.y}`)).size).toBe(3);
+});
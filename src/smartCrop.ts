@@ -0,0 +1,208 @@
+// Content-aware crop suggestions, computed on the CPU from a small copy of
+// the image. Every pixel gets an interest score from edge strength and colour
+// saturation; crop windows are ranked by how much of that interest they
+// keep and how little of it they cut through at their borders.
+
+import {
+  Area,
+  CropSource,
+  DEFAULT_TRANSFORM,
+  Dimensions,
+  getContext,
+  getLargestArea,
+  ImageTransform,
+  renderCrop,
+} from "./cropEngine";
+
+export interface SuggestOptions {
+  transform?: ImageTransform;
+  // Number of alternatives to return, best first
+  count?: number;
+}
+
+// Longest edge of the copy that gets analysed
+const ANALYSIS_SIZE = 160;
+// Window sizes tried, relative to the largest window with the ratio
+const WINDOW_SCALES = [1, 0.9, 0.8, 0.7, 0.6];
+// Candidates overlapping a better one by more than this are skipped
+const MAX_OVERLAP = 0.6;
+
+// Interest map from RGBA pixels: Sobel edge magnitude on luminance plus
+// saturation, both scaled to 0-1
+export const computeSaliency = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): Float32Array => {
+  const luma = new Float32Array(width * height);
+  const saturation = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    luma[i] = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+    saturation[i] = max > 0 ? (max - min) / max : 0;
+  }
+
+  const at = (x: number, y: number) =>
+    luma[
+      Math.min(height - 1, Math.max(0, y)) * width +
+        Math.min(width - 1, Math.max(0, x))
+    ];
+
+  const saliency = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) +
+        2 * at(x + 1, y) +
+        at(x + 1, y + 1) -
+        at(x - 1, y - 1) -
+        2 * at(x - 1, y) -
+        at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) +
+        2 * at(x, y + 1) +
+        at(x + 1, y + 1) -
+        at(x - 1, y - 1) -
+        2 * at(x, y - 1) -
+        at(x + 1, y - 1);
+      const edge = Math.min(1, Math.sqrt(gx * gx + gy * gy) / 4);
+      saliency[y * width + x] = 0.7 * edge + 0.3 * saturation[y * width + x];
+    }
+  }
+  return saliency;
+};
+
+// Summed-area table with one row and column of padding
+const buildIntegral = (values: Float32Array, width: number, height: number) => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] =
+        integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+  return (x: number, y: number, w: number, h: number) => {
+    const stride = width + 1;
+    return (
+      integral[(y + h) * stride + x + w] -
+      integral[y * stride + x + w] -
+      integral[(y + h) * stride + x] +
+      integral[y * stride + x]
+    );
+  };
+};
+
+const overlap = (a: Area, b: Area) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+};
+
+// Best windows with `ratio` in a saliency map, in map coordinates
+export const findCropCandidates = (
+  saliency: Float32Array,
+  width: number,
+  height: number,
+  ratio: number,
+  count = 3
+): Area[] => {
+  const sum = buildIntegral(saliency, width, height);
+  const total = sum(0, 0, width, height) || 1;
+  const largest = getLargestArea({ width, height }, ratio);
+  const scored: { area: Area; score: number }[] = [];
+
+  WINDOW_SCALES.forEach((scale) => {
+    const w = Math.max(1, Math.round(largest.width * scale));
+    const h = Math.max(1, Math.round(largest.height * scale));
+    const step = Math.max(1, Math.round(Math.min(w, h) / 20));
+    const ring = Math.max(1, Math.round(Math.min(w, h) / 20));
+
+    for (let y = 0; y + h <= height; y += step) {
+      for (let x = 0; x + w <= width; x += step) {
+        const inside = sum(x, y, w, h);
+        const core = sum(x + ring, y + ring, w - 2 * ring, h - 2 * ring);
+        const coverage = inside / total;
+        const density = inside / (w * h) / (total / (width * height));
+        // More interest on the border than an even spread would put there
+        // means the crop cuts through something
+        const ringShare = (inside - core) / (inside || 1);
+        const evenShare = 1 - ((w - 2 * ring) * (h - 2 * ring)) / (w * h);
+        const cut = Math.max(0, ringShare - evenShare);
+        const score = coverage * Math.sqrt(density) * (1 - 0.5 * cut);
+        scored.push({ area: { x, y, width: w, height: h }, score });
+      }
+    }
+  });
+
+  const picked: Area[] = [];
+  scored
+    .sort((a, b) => b.score - a.score)
+    .some(({ area }) => {
+      if (picked.every((other) => overlap(area, other) <= MAX_OVERLAP)) {
+        picked.push(area);
+      }
+      return picked.length >= count;
+    });
+  return picked;
+};
+
+// Suggested crops with `ratio` for an image, best first, in the same
+// coordinates as `bounds` (the rotated image's bounding box)
+export const suggestCrops = async (
+  source: CropSource,
+  bounds: Dimensions,
+  ratio: number,
+  { transform = DEFAULT_TRANSFORM, count = 3 }: SuggestOptions = {}
+): Promise<Area[]> => {
+  const scale = Math.min(
+    1,
+    ANALYSIS_SIZE / Math.max(bounds.width, bounds.height)
+  );
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+  const canvas = await renderCrop(
+    source,
+    { x: 0, y: 0, ...bounds },
+    { transform, output: { width, height } }
+  );
+  const ctx = getContext(canvas);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const mapRatio = ratio > 0 ? ratio : width / height;
+  const candidates = findCropCandidates(
+    computeSaliency(data, width, height),
+    width,
+    height,
+    mapRatio,
+    count
+  );
+
+  // Scale back up, keeping the exact ratio inside the bounds
+  const largestMap = getLargestArea({ width, height }, mapRatio);
+  const largest = getLargestArea(bounds, ratio > 0 ? ratio : 0);
+  return candidates.map((candidate) => {
+    const factor = Math.min(1, candidate.width / largestMap.width);
+    const size = {
+      width: Math.round(largest.width * factor),
+      height: Math.round(largest.height * factor),
+    };
+    return {
+      ...size,
+      x: Math.min(
+        bounds.width - size.width,
+        Math.max(0, Math.round(candidate.x / scale))
+      ),
+      y: Math.min(
+        bounds.height - size.height,
+        Math.max(0, Math.round(candidate.y / scale))
+      ),
+    };
+  });
+};
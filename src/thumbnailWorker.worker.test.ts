@@ -0,0 +1,64 @@
+import {
+  createThumbnailHandler,
+  ThumbnailResponse,
+} from "./thumbnailWorker.worker";
+
+const createMockContext = () => ({
+  fillStyle: "",
+  fillRect: jest.fn(),
+  drawImage: jest.fn(),
+  imageSmoothingQuality: "low",
+});
+
+const file = new Blob(["image"], { type: "image/jpeg" });
+const encoded = new Blob(["thumbnail"], { type: "image/jpeg" });
+
+let context: ReturnType<typeof createMockContext>;
+let bitmap: ImageBitmap;
+let decode: jest.Mock;
+
+beforeEach(() => {
+  context = createMockContext();
+  bitmap = {
+    width: 4000,
+    height: 3000,
+    close: jest.fn(),
+  } as unknown as ImageBitmap;
+  decode = jest.fn(async () => bitmap);
+  Object.defineProperty(window, "createImageBitmap", {
+    value: decode,
+    configurable: true,
+  });
+  jest
+    .spyOn(HTMLCanvasElement.prototype, "getContext")
+    .mockImplementation(() => context as unknown as CanvasRenderingContext2D);
+  jest
+    .spyOn(HTMLCanvasElement.prototype, "toBlob")
+    .mockImplementation((callback) => callback(encoded));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const runHandler = (id: number) =>
+  new Promise<ThumbnailResponse>((resolve) => {
+    createThumbnailHandler(resolve)({ id, blob: file });
+  });
+
+test("answers with a shrunk preview and the upright size of the original", async () => {
+  const response = await runHandler(1);
+
+  expect(decode).toHaveBeenCalledWith(file, {
+    imageOrientation: "from-image",
+  });
+  expect(context.drawImage).toHaveBeenCalledWith(bitmap, 0, 0, 400, 300);
+  expect(response).toEqual({ id: 1, blob: encoded, width: 4000, height: 3000 });
+  expect(bitmap.close).toHaveBeenCalled();
+});
+
+test("reports images that cannot be decoded", async () => {
+  decode.mockRejectedValue(new Error("bad data"));
+
+  expect(await runHandler(1)).toEqual({ id: 1, error: "bad data" });
+});
@@ -0,0 +1,60 @@
+// Shrinks images to grid previews off the main thread. Requests are handled
+// one at a time so only one original is decoded at once.
+
+import { DECODE_OPTIONS } from "./cropEngine";
+import { drawThumbnail } from "./thumbnails";
+
+export interface ThumbnailRequest {
+  id: number;
+  blob: Blob;
+}
+
+// Answers with the upright size of the original, or an error
+export interface ThumbnailResponse {
+  id: number;
+  blob?: Blob;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+// Handles the requests of one page; answers go through `post`
+export const createThumbnailHandler = (
+  post: (response: ThumbnailResponse) => void
+) => {
+  let queue = Promise.resolve();
+
+  const makeThumbnail = async ({ id, blob }: ThumbnailRequest) => {
+    try {
+      const bitmap = await createImageBitmap(blob, DECODE_OPTIONS);
+      try {
+        const source = { width: bitmap.width, height: bitmap.height };
+        post({ id, blob: await drawThumbnail(bitmap, source), ...source });
+      } finally {
+        bitmap.close();
+      }
+    } catch (error) {
+      post({
+        id,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Thumbnail could not be created",
+      });
+    }
+  };
+
+  return (request: ThumbnailRequest) => {
+    queue = queue.then(() => makeThumbnail(request));
+  };
+};
+
+// Only inside a worker, not when tests import this module
+if (typeof document === "undefined") {
+  const scope = globalThis as unknown as Worker;
+  const handle = createThumbnailHandler((response) =>
+    scope.postMessage(response)
+  );
+  scope.onmessage = (event: MessageEvent<ThumbnailRequest>) =>
+    handle(event.data);
+}
@@ -0,0 +1,131 @@
+// Grid previews. Each original is decoded once, in a worker where the browser
+// has OffscreenCanvas, and shrunk to a small JPEG so the grid never has to
+// decode full-size photos.
+
+import { createThumbnailWorker } from "./createThumbnailWorker";
+import {
+  canvasToBlob,
+  createCanvas,
+  Dimensions,
+  loadImage,
+} from "./cropEngine";
+import { ThumbnailRequest, ThumbnailResponse } from "./thumbnailWorker.worker";
+
+// Longest edge of a grid preview, about twice the card size so previews stay
+// sharp on high density screens
+export const THUMBNAIL_SIZE = 400;
+
+const THUMBNAIL_QUALITY = 0.8;
+
+export const getThumbnailSize = (
+  size: Dimensions,
+  maxSize = THUMBNAIL_SIZE
+): Dimensions => {
+  const scale = Math.min(1, maxSize / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+};
+
+// Draws the preview of an image of size `source` on a white background
+export const drawThumbnail = (
+  image: CanvasImageSource,
+  source: Dimensions
+): Promise<Blob> => {
+  const { width, height } = getThumbnailSize(source);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvasToBlob(canvas, {
+    type: "image/jpeg",
+    quality: THUMBNAIL_QUALITY,
+  });
+};
+
+export interface GridThumbnail {
+  blob: Blob;
+  // Upright size of the original image
+  source: Dimensions;
+}
+
+interface PendingThumbnail {
+  file: Blob;
+  resolve: (thumbnail: GridThumbnail) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let isWorkerBroken = false;
+let nextId = 0;
+const pending = new Map<number, PendingThumbnail>();
+
+// Main-thread fallback, run one image at a time to bound memory use
+let fallbackQueue: Promise<unknown> = Promise.resolve();
+
+const renderOnMainThread = (file: Blob): Promise<GridThumbnail> => {
+  const task = fallbackQueue.then(async () => {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = await loadImage(url);
+      const source = { width: image.naturalWidth, height: image.naturalHeight };
+      return { blob: await drawThumbnail(image, source), source };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  });
+  fallbackQueue = task.catch(() => undefined);
+  return task;
+};
+
+const supportsWorker = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+const getWorker = () => {
+  if (worker || isWorkerBroken || !supportsWorker()) return worker;
+  try {
+    worker = createThumbnailWorker();
+  } catch {
+    isWorkerBroken = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<ThumbnailResponse>) => {
+    const { id, blob, width = 0, height = 0, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (blob) request.resolve({ blob, source: { width, height } });
+    else request.reject(new Error(error ?? "Thumbnail could not be created"));
+  };
+
+  // The script failed to load or crashed, so finish on the main thread
+  worker.onerror = () => {
+    isWorkerBroken = true;
+    worker?.terminate();
+    worker = null;
+    const requests = Array.from(pending.values());
+    pending.clear();
+    requests.forEach(({ file, resolve, reject }) =>
+      renderOnMainThread(file).then(resolve, reject)
+    );
+  };
+  return worker;
+};
+
+// Small upright JPEG of an image file for the grid
+export const createGridThumbnail = (file: Blob): Promise<GridThumbnail> => {
+  const thumbnailWorker = getWorker();
+  if (!thumbnailWorker) return renderOnMainThread(file);
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { file, resolve, reject });
+    const request: ThumbnailRequest = { id, blob: file };
+    thumbnailWorker.postMessage(request);
+  });
+};
@@ -0,0 +1,104 @@
+import { Area, CropPadding, Dimensions, ImageTransform } from "./cropEngine";
+import { CropShapeSettings } from "./cropShape";
+import { ExifData } from "./exif";
+import { ExportSettings } from "./exportSettings";
+import { ImageAdjustments } from "./imageAdjustments";
+import { OutputSettings } from "./outputSize";
+
+export type { Area, Dimensions, ImageTransform, Point } from "./cropEngine";
+export { DEFAULT_TRANSFORM } from "./cropEngine";
+
+// Crop area plus the transform it was made with, in rotated image coordinates
+export interface SavedCrop extends Area, ImageTransform {}
+
+// Everything needed to reproduce an export of an image
+export interface CropSettings {
+  area: Area;
+  aspectRatio: number;
+  zoom: number;
+  transform: ImageTransform;
+  // Scaled output size, when different from the crop area
+  output?: Dimensions;
+  // Print resolution written into the file
+  dpi?: number;
+  // Output size settings `output` and `dpi` came from
+  outputSettings?: OutputSettings;
+  exportSettings: ExportSettings;
+  // Cut-out shape, rectangular when omitted
+  shape?: CropShapeSettings;
+  // Fill around the image when the crop reaches past it
+  padding?: CropPadding;
+  // Color changes, omitted when nothing was adjusted
+  adjustments?: ImageAdjustments;
+  // Name of the crop region this export was made from
+  regionName?: string;
+}
+
+export interface CropInfo extends CropSettings {
+  id: string;
+  dimensions: string;
+  timestamp: Date;
+  // Small JPEG data URL of the exported result
+  thumbnail?: string;
+}
+
+// A named crop kept on an image, exported together with its other regions
+export interface CropRegion {
+  id: string;
+  name: string;
+  area: Area;
+  aspectRatio: number;
+  zoom: number;
+  transform: ImageTransform;
+  outputSettings: OutputSettings;
+  exportSettings: ExportSettings;
+  // Shape, fill and color changes as in CropSettings; regions saved before
+  // they were kept have none
+  shape?: CropShapeSettings;
+  padding?: CropPadding;
+  adjustments?: ImageAdjustments;
+}
+
+export interface CropResult {
+  imageId: string;
+  settings: CropSettings;
+  thumbnail?: string;
+}
+
+export interface ImageData {
+  id: string;
+  file: File;
+  url: string;
+  name: string;
+  // Folder the file came from in a folder import, e.g. "trip/day 1"
+  folder?: string;
+  size: number;
+  cropped: boolean;
+  cropHistory: CropInfo[];
+  lastCrop?: SavedCrop;
+  // Parsed once on import; null when the file has no EXIF block
+  exif?: ExifData | null;
+  regions?: CropRegion[];
+  // Small JPEG preview for the grid; null when it could not be made
+  thumbnail?: Blob | null;
+  // Object URL of `thumbnail`, created at runtime
+  thumbnailUrl?: string;
+  // Upright size of the original, recorded with the thumbnail
+  dimensions?: Dimensions;
+}
+
+export const AspectRatios = {
+  FREE: 0,
+  ORIGINAL: -1,
+  SQUARE: 1,
+} as const;
+
+export const AspectRatioOptions = [
+  { label: "Free-form", value: AspectRatios.FREE },
+  { label: "Original", value: AspectRatios.ORIGINAL },
+  { label: "1:1 (Square)", value: AspectRatios.SQUARE },
+  { label: "16:9", value: 16 / 9 },
+  { label: "4:3", value: 4 / 3 },
+  { label: "3:2", value: 3 / 2 },
+  { label: "9:16 (Portrait)", value: 9 / 16 },
+];
@@ -0,0 +1,42 @@
+import { getVisibleRows } from "./virtualGrid";
+
+const grid = { viewportHeight: 800, rowHeight: 200, rowCount: 50 };
+
+test("getVisibleRows covers the viewport plus overscan", () => {
+  expect(getVisibleRows({ ...grid, scrollTop: 0 })).toEqual({
+    start: 0,
+    end: 6,
+  });
+  expect(getVisibleRows({ ...grid, scrollTop: 1000 })).toEqual({
+    start: 3,
+    end: 11,
+  });
+  expect(getVisibleRows({ ...grid, scrollTop: 1000, overscan: 0 })).toEqual({
+    start: 5,
+    end: 9,
+  });
+});
+
+test("getVisibleRows handles a grid lower on the page", () => {
+  // Top of the grid is 500px below the top of the viewport
+  expect(getVisibleRows({ ...grid, scrollTop: -500, overscan: 0 })).toEqual({
+    start: 0,
+    end: 2,
+  });
+  // Grid entirely below the viewport
+  expect(getVisibleRows({ ...grid, scrollTop: -2000, overscan: 0 })).toEqual({
+    start: 0,
+    end: 0,
+  });
+});
+
+test("getVisibleRows stays within the grid", () => {
+  expect(getVisibleRows({ ...grid, scrollTop: 20000 })).toEqual({
+    start: 50,
+    end: 50,
+  });
+  expect(getVisibleRows({ ...grid, rowCount: 0, scrollTop: 0 })).toEqual({
+    start: 0,
+    end: 0,
+  });
+});
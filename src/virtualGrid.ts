@@ -0,0 +1,29 @@
+// Row range of a window-scrolled grid worth rendering. Rows have a fixed
+// height, so the range follows from the scroll position alone.
+
+export interface VisibleRowsInput {
+  // How far the top of the viewport is below the top of the grid, negative
+  // while the grid starts further down the page
+  scrollTop: number;
+  viewportHeight: number;
+  // Row height including the gap below it
+  rowHeight: number;
+  rowCount: number;
+  // Extra rows rendered above and below so fast scrolling shows no gaps
+  overscan?: number;
+}
+
+// Rows from `start` up to, but not including, `end`
+export const getVisibleRows = ({
+  scrollTop,
+  viewportHeight,
+  rowHeight,
+  rowCount,
+  overscan = 2,
+}: VisibleRowsInput): { start: number; end: number } => {
+  if (rowCount <= 0 || rowHeight <= 0) return { start: 0, end: 0 };
+  const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const last = Math.ceil(Math.max(0, scrollTop + viewportHeight) / rowHeight);
+  const start = Math.min(rowCount, Math.max(0, first - overscan));
+  return { start, end: Math.max(start, Math.min(rowCount, last + overscan)) };
+};
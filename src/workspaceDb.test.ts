@@ -0,0 +1,79 @@
+import { ImageData } from "./types";
+import {
+  getWorkspaceChanges,
+  readLegacyPreferences,
+  StoredEntry,
+} from "./workspaceDb";
+
+const createImage = (id: string): ImageData => ({
+  id,
+  file: new File([], `${id}.png`),
+  url: "",
+  name: `${id}.png`,
+  size: 0,
+  cropped: false,
+  cropHistory: [],
+});
+
+// Entries for images saved in this order
+const storedAs = (images: ImageData[]) =>
+  new Map(
+    images.map((image, order): [string, StoredEntry] => [
+      image.id,
+      { image, order, hasFile: true },
+    ])
+  );
+
+afterEach(() => {
+  window.localStorage.clear();
+});
+
+test("readLegacyPreferences reads the localStorage preferences", () => {
+  const exportSettings = { format: "image/jpeg", quality: 80 };
+  window.localStorage.setItem(
+    "img-crop-c:exportSettings",
+    JSON.stringify(exportSettings)
+  );
+  window.localStorage.setItem("other:exportSettings", "{}");
+
+  expect(readLegacyPreferences()).toEqual([["exportSettings", exportSettings]]);
+});
+
+test("readLegacyPreferences skips missing and unreadable values", () => {
+  expect(readLegacyPreferences()).toEqual([]);
+
+  window.localStorage.setItem("img-crop-c:exportSettings", "{not json");
+  expect(readLegacyPreferences()).toEqual([]);
+});
+
+test("getWorkspaceChanges writes only the images that changed", () => {
+  const [a, b, c] = ["a", "b", "c"].map(createImage);
+  const updated = { ...b, cropped: true };
+
+  expect(getWorkspaceChanges(storedAs([a, b, c]), [a, b, c])).toEqual({
+    removedIds: [],
+    changed: [],
+  });
+  expect(getWorkspaceChanges(storedAs([a, b, c]), [a, updated, c])).toEqual({
+    removedIds: [],
+    changed: [{ image: updated, order: 1 }],
+  });
+});
+
+test("getWorkspaceChanges keeps stored orders when images are removed or added", () => {
+  const [a, b, c, d] = ["a", "b", "c", "d"].map(createImage);
+
+  expect(getWorkspaceChanges(storedAs([a, b, c]), [a, c, d])).toEqual({
+    removedIds: ["b"],
+    changed: [{ image: d, order: 3 }],
+  });
+  // Images put in front of the stored ones renumber what comes after them
+  expect(getWorkspaceChanges(storedAs([a, b]), [d, a, b])).toEqual({
+    removedIds: [],
+    changed: [
+      { image: d, order: 0 },
+      { image: a, order: 1 },
+      { image: b, order: 2 },
+    ],
+  });
+});
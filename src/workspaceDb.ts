@@ -0,0 +1,279 @@
+import { createUprightUrl } from "./imageUtils";
+import { ImageData } from "./types";
+
+const DB_NAME = "img-crop-c";
+const DB_VERSION = 1;
+const IMAGES_STORE = "images";
+const FILES_STORE = "files";
+const PREFERENCES_STORE = "preferences";
+
+// Earlier versions kept preferences in localStorage under this prefix
+const LEGACY_PREFIX = "img-crop-c:";
+const LEGACY_KEYS = ["exportSettings"];
+
+// Everything about an image except its object URL, which is recreated on load
+export type StoredImage = Omit<ImageData, "url" | "file" | "thumbnailUrl"> & {
+  order: number;
+};
+
+// What the database holds for an image, as of the last load or save
+export interface StoredEntry {
+  // The image as it was written; missing for records without a file
+  image?: ImageData;
+  order: number;
+  hasFile: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let storedEntries = new Map<string, StoredEntry>();
+// Saves run one after another; images passed while one waits replace its list
+let lastSave: Promise<void> = Promise.resolve();
+let nextSave: Promise<void> | null = null;
+let nextImages: ImageData[] = [];
+
+export const isWorkspaceSupported = () =>
+  typeof window !== "undefined" && "indexedDB" in window && !!window.indexedDB;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Preferences earlier versions saved to localStorage, skipping unreadable ones
+export const readLegacyPreferences = (): [string, unknown][] =>
+  LEGACY_KEYS.flatMap((key): [string, unknown][] => {
+    try {
+      const stored = window.localStorage.getItem(LEGACY_PREFIX + key);
+      return stored === null ? [] : [[key, JSON.parse(stored)]];
+    } catch {
+      return [];
+    }
+  });
+
+// Moves the localStorage preferences into the preferences store, keeping
+// values already saved there, then drops the old keys
+const migrateLegacyPreferences = async (db: IDBDatabase) => {
+  const legacy = readLegacyPreferences();
+  if (legacy.length > 0) {
+    const transaction = db.transaction(PREFERENCES_STORE, "readwrite");
+    const store = transaction.objectStore(PREFERENCES_STORE);
+    legacy.forEach(([key, value]) => {
+      // add fails on keys that exist; that must not fail the transaction
+      store.add(value, key).onerror = (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+      };
+    });
+    await transactionDone(transaction);
+  }
+  try {
+    LEGACY_KEYS.forEach((key) =>
+      window.localStorage.removeItem(LEGACY_PREFIX + key)
+    );
+  } catch {
+    // Storage may be disabled; there is nothing to move then
+  }
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE);
+        }
+        if (!db.objectStoreNames.contains(PREFERENCES_STORE)) {
+          db.createObjectStore(PREFERENCES_STORE);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A failed move is tried again on the next load
+        migrateLegacyPreferences(db).then(
+          () => resolve(db),
+          () => resolve(db)
+        );
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Restores the stored images in their original order, with fresh object URLs
+export const loadWorkspace = async (): Promise<ImageData[]> => {
+  if (!isWorkspaceSupported()) return [];
+  const db = await openDb();
+  const transaction = db.transaction([IMAGES_STORE, FILES_STORE], "readonly");
+  const filesStore = transaction.objectStore(FILES_STORE);
+  const [records, fileIds, files] = await Promise.all([
+    requestToPromise<StoredImage[]>(
+      transaction.objectStore(IMAGES_STORE).getAll()
+    ),
+    requestToPromise(filesStore.getAllKeys()),
+    requestToPromise<File[]>(filesStore.getAll()),
+  ]);
+  const filesById = new Map(
+    fileIds.map((id, index) => [String(id), files[index]])
+  );
+  storedEntries = new Map(
+    Array.from(filesById.keys(), (id): [string, StoredEntry] => [
+      id,
+      { order: -1, hasFile: true },
+    ])
+  );
+
+  const images = await Promise.all(
+    records
+      .sort((a, b) => a.order - b.order)
+      .map(async ({ order, ...record }) => {
+        const file = filesById.get(record.id);
+        storedEntries.set(record.id, { order, hasFile: !!file });
+        if (!file) return null;
+        const url = await createUprightUrl(file, record.exif?.orientation);
+        const image: ImageData = { ...record, file, url };
+        if (record.thumbnail) {
+          image.thumbnailUrl = URL.createObjectURL(record.thumbnail);
+        }
+        storedEntries.set(record.id, { image, order, hasFile: true });
+        return image;
+      })
+  );
+  return images.filter((image): image is ImageData => image !== null);
+};
+
+// Images to write and ids to delete to bring the stored entries up to date
+// with `images`. Only images whose object changed are written. Orders only
+// have to increase, so images keep their stored order where they can and
+// removing one rewrites nothing else.
+export const getWorkspaceChanges = (
+  stored: Map<string, StoredEntry>,
+  images: ImageData[]
+) => {
+  const currentIds = new Set(images.map((image) => image.id));
+  const removedIds = Array.from(stored.keys()).filter(
+    (id) => !currentIds.has(id)
+  );
+  const changed: { image: ImageData; order: number }[] = [];
+  let lastOrder = -1;
+  images.forEach((image) => {
+    const entry = stored.get(image.id);
+    const order =
+      entry && entry.order > lastOrder ? entry.order : lastOrder + 1;
+    if (entry?.image !== image || entry.order !== order) {
+      changed.push({ image, order });
+    }
+    lastOrder = order;
+  });
+  return { removedIds, changed };
+};
+
+const writeWorkspace = async (images: ImageData[]) => {
+  const { removedIds, changed } = getWorkspaceChanges(storedEntries, images);
+  if (removedIds.length === 0 && changed.length === 0) return;
+
+  const db = await openDb();
+  const transaction = db.transaction([IMAGES_STORE, FILES_STORE], "readwrite");
+  const imagesStore = transaction.objectStore(IMAGES_STORE);
+  const filesStore = transaction.objectStore(FILES_STORE);
+
+  removedIds.forEach((id) => {
+    filesStore.delete(id);
+    imagesStore.delete(id);
+  });
+  changed.forEach(({ image, order }) => {
+    const { url, file, thumbnailUrl, ...metadata } = image;
+    if (!storedEntries.get(image.id)?.hasFile) filesStore.put(file, image.id);
+    imagesStore.put({ ...metadata, order });
+  });
+  await transactionDone(transaction);
+
+  removedIds.forEach((id) => storedEntries.delete(id));
+  changed.forEach(({ image, order }) =>
+    storedEntries.set(image.id, { image, order, hasFile: true })
+  );
+};
+
+// Writes the changes to the image list since the last save, storing new
+// files once and dropping removed ones. Calls made while a save runs are
+// combined into one save of the newest list once it is done.
+export const saveWorkspace = (images: ImageData[]): Promise<void> => {
+  if (!isWorkspaceSupported()) return Promise.resolve();
+  nextImages = images;
+  if (!nextSave) {
+    nextSave = lastSave
+      .catch(() => undefined)
+      .then(() => {
+        nextSave = null;
+        return writeWorkspace(nextImages);
+      });
+    lastSave = nextSave;
+  }
+  return nextSave;
+};
+
+// Waits for the running save, so it cannot write images back afterwards
+export const clearWorkspace = (): Promise<void> => {
+  if (!isWorkspaceSupported()) return Promise.resolve();
+  lastSave = lastSave
+    .catch(() => undefined)
+    .then(async () => {
+      const db = await openDb();
+      const transaction = db.transaction(
+        [IMAGES_STORE, FILES_STORE],
+        "readwrite"
+      );
+      transaction.objectStore(IMAGES_STORE).clear();
+      transaction.objectStore(FILES_STORE).clear();
+      await transactionDone(transaction);
+      storedEntries = new Map();
+    });
+  return lastSave;
+};
+
+export const loadPreference = async <T>(
+  key: string,
+  fallback: T
+): Promise<T> => {
+  if (!isWorkspaceSupported()) return fallback;
+  const db = await openDb();
+  const value = await requestToPromise<T | undefined>(
+    db.transaction(PREFERENCES_STORE).objectStore(PREFERENCES_STORE).get(key)
+  );
+  return value === undefined ? fallback : value;
+};
+
+export const savePreference = async <T>(key: string, value: T) => {
+  if (!isWorkspaceSupported()) return;
+  const db = await openDb();
+  const transaction = db.transaction(PREFERENCES_STORE, "readwrite");
+  transaction.objectStore(PREFERENCES_STORE).put(value, key);
+  await transactionDone(transaction);
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,23 @@
+import {
+  clampImageLimit,
+  getSuggestedImageLimit,
+  MAX_IMAGE_LIMIT,
+  MIN_IMAGE_LIMIT,
+} from "./workspaceLimits";
+
+test("getSuggestedImageLimit scales with device memory", () => {
+  expect(getSuggestedImageLimit(2)).toBe(100);
+  expect(getSuggestedImageLimit(8)).toBe(400);
+  expect(getSuggestedImageLimit(0.1)).toBe(MIN_IMAGE_LIMIT);
+});
+
+test("getSuggestedImageLimit falls back when memory is unknown", () => {
+  expect(getSuggestedImageLimit(undefined)).toBe(200);
+  expect(getSuggestedImageLimit(0)).toBe(200);
+});
+
+test("clampImageLimit keeps limits whole and in range", () => {
+  expect(clampImageLimit(3)).toBe(MIN_IMAGE_LIMIT);
+  expect(clampImageLimit(5000)).toBe(MAX_IMAGE_LIMIT);
+  expect(clampImageLimit(120.6)).toBe(121);
+});
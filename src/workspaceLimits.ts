@@ -0,0 +1,27 @@
+// How many images the workspace accepts. Originals are only decoded when
+// opened, so the cost per image is mostly its file and grid thumbnail; the
+// default still scales with the memory the browser reports.
+
+export const MIN_IMAGE_LIMIT = 10;
+export const MAX_IMAGE_LIMIT = 1000;
+
+// Used when the browser does not report its memory
+const FALLBACK_IMAGE_LIMIT = 200;
+
+// Images allowed per GB of device memory
+const IMAGES_PER_GB = 50;
+
+export const clampImageLimit = (limit: number) =>
+  Math.min(MAX_IMAGE_LIMIT, Math.max(MIN_IMAGE_LIMIT, Math.round(limit)));
+
+// `deviceMemory` is navigator.deviceMemory in GB, which browsers round down
+// and cap at 8
+export const getSuggestedImageLimit = (deviceMemory?: number) =>
+  deviceMemory && deviceMemory > 0
+    ? clampImageLimit(deviceMemory * IMAGES_PER_GB)
+    : FALLBACK_IMAGE_LIMIT;
+
+export const getDeviceMemory = (): number | undefined =>
+  typeof navigator !== "undefined"
+    ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    : undefined;